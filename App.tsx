@@ -1,86 +1,524 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { UploadIcon, UndoIcon, RedoIcon, DownloadIcon, PlusIcon, MenuIcon, XMarkIcon, TrashIcon, SearchIcon, SparklesIcon, MagicIcon } from './components/Icons';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { UploadIcon, UndoIcon, RedoIcon, DownloadIcon, CogIcon, PlusIcon, MenuIcon, XMarkIcon, TrashIcon, SearchIcon, SparklesIcon, MagicIcon, ClockIcon, UsersIcon, QuoteIcon, LanguageIcon, ChevronUpIcon, ChevronDownIcon, BookIcon, WaveformIcon, MicrophoneIcon } from './components/Icons';
 import { AudioPlayer } from './components/AudioPlayer';
 import { Editor } from './components/Editor';
 import { AIAssistant } from './components/AIAssistant';
-import { transcribeAudio, reviewTranscript, correctSegmentText } from './services/geminiService';
-import { TranscriptSegment, EditMode, Language } from './types';
+import { SessionSidebar } from './components/SessionSidebar';
+import { SettingsPanel } from './components/SettingsPanel';
+import { SpeakerPanel } from './components/SpeakerPanel';
+import { QuotesPanel } from './components/QuotesPanel';
+import { FindReplaceBar } from './components/FindReplaceBar';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { WaveformTimeline } from './components/WaveformTimeline';
+import { PlaybackControlsPanel } from './components/PlaybackControlsPanel';
+import { RecordingBar } from './components/RecordingBar';
+import { transcribeAudio, reviewTranscript, correctSegmentText, transformSegments, translateSegments, getActiveGlossary, createLiveTranscriber, LiveTranscriber } from './services/transcriptionService';
+import { EditMode, Language, StoredSession, GlossaryScope } from './types';
 import { useAppStore } from './store';
+import { saveMedia, loadMedia } from './services/storageService';
+import { toSrt, toWebVtt, toQuoteSheet, defaultSubtitleOptions, SubtitleOptions } from './services/exportService';
+import { toDocx, toPdf } from './services/documentExport';
+import { parseTranscriptFile } from './services/importService';
+import { decodeAudio, toWav } from './services/audioChunker';
+import { startLiveRecorder, LiveRecorder } from './services/liveRecorder';
+import { formatTimestamp, findSegmentIndexAt } from './services/timecode';
+import { computeEnergyEnvelope, estimateWordTimings, hasValidWords } from './services/wordAlignment';
+import { FindOptions, defaultFindOptions, buildMatcher, findMatches, applyReplacements } from './services/findReplace';
+import { applyGlossary, toGlossaryCsv } from './services/glossary';
+import { isUncertain } from './services/confidence';
 
-interface HistoryState { segments: TranscriptSegment[]; mode: EditMode; }
+const modeLabels: Record<EditMode, Record<Language, string>> = {
+  [EditMode.RAW]: { es: 'Literal', eu: 'Hitzez hitz' },
+  [EditMode.CLEANED]: { es: 'Limpio', eu: 'Garbia' },
+  [EditMode.JOURNALISTIC]: { es: 'Periodístico', eu: 'Kazetaritza' }
+};
+
+const LIVE_CHUNK_MS = 15000; // Length of each rolling chunk sent while recording
+
+const downloadFile = (content: BlobPart, name: string, type = 'text/plain') => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
 
 const App: React.FC = () => {
   const { 
-    language, setLanguage, setSidebarOpen, sessionId, setSessionId, fileName, setFileName, segments, setSegments, processingState, setProcessingState, saveCurrentSession, resetSession, updateSegment, updateSpeaker, deleteSegment, mergeSegment, splitSegment 
+    language, setLanguage, providerSettings, setProviderSettings, playbackSettings, setPlaybackSettings, glossary, sessionGlossary, setGlossary, isSidebarOpen, setSidebarOpen, savedSessions, loadSession, deleteSession, renameSession, duplicateSession, sessionId, setSessionId, fileName, setFileName, segments, setSegments, appendSegments, editMode, setEditMode, setModeSegments, getModeSegments, processingState, setProcessingState, saveCurrentSession, resetSession, updateSegment, updateSpeaker, deleteSegment, mergeSegment, splitSegment, setWordTimings, replaceSegmentTexts, retimeSegment, markSegmentVerified, speakers, renameSpeaker, assignSpeakerRange, setSpeakerProfile, past, future, undo, redo, endHistoryBurst,
+    chatMessages, setChatMessages, quotes, addQuote, removeQuote, translation, setTranslation, updateTranslationText, suggestions, setSuggestions, acceptSuggestion, rejectSuggestion, acceptAllSuggestions, rejectAllSuggestions
   } = useAppStore();
 
   const [file, setFile] = useState<File | null>(null);
   const [currentTime, setCurrentTime] = useState(0);
   const [seekRequest, setSeekRequest] = useState<number | null>(null);
+  const [focusRequest, setFocusRequest] = useState<{ segmentId: string } | null>(null);
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
   const [isAiAssistantOpen, setIsAiAssistantOpen] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSpeakerPanelOpen, setIsSpeakerPanelOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isControlsOpen, setIsControlsOpen] = useState(false);
+  const [isQuotesOpen, setIsQuotesOpen] = useState(false);
+  const [showTranslation, setShowTranslation] = useState(false);
+  const [showWaveform, setShowWaveform] = useState(false);
+  const [exportTrack, setExportTrack] = useState<'source' | 'translation'>('source');
+  const transcriptionAbort = useRef<AbortController | null>(null);
+  const [liveRecorder, setLiveRecorder] = useState<LiveRecorder | null>(null);
+  const liveSession = useRef<{ id: string; transcriber: LiveTranscriber } | null>(null);
+  // Actions that replace the processing state would hide the recording bar, so they wait until it stops.
+  const isRecording = processingState.status === 'recording';
+  const [findOptions, setFindOptions] = useState<FindOptions>(defaultFindOptions);
+  const [replacement, setReplacement] = useState('');
+  const [isReplaceOpen, setIsReplaceOpen] = useState(false);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [uncertainIndex, setUncertainIndex] = useState(-1);
+  const searchInput = useRef<HTMLInputElement>(null);
   const [correctingSegmentId, setCorrectingSegmentId] = useState<string | null>(null);
-  const [isReviewing, setIsReviewing] = useState(false);
+  const [mediaDuration, setMediaDuration] = useState(0);
+  const [subtitleOptions, setSubtitleOptions] = useState<SubtitleOptions>(defaultSubtitleOptions);
+  const [includeTimestamps, setIncludeTimestamps] = useState(true);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'f') {
+        e.preventDefault();
+        searchInput.current?.focus();
+        searchInput.current?.select();
+      } else if (key === 'z' || key === 'y') {
+        // Other fields (search, chat, renames, translations) keep the browser's own undo.
+        const target = e.target as HTMLElement;
+        const isField = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+        if (isField && !target.dataset.segmentId) return;
+        e.preventDefault();
+        if (key === 'z' && !e.shiftKey) undo(); else redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
       setFile(selectedFile);
       setFileName(selectedFile.name);
-      setSessionId(Date.now().toString());
-      setProcessingState({ status: 'transcribing', message: language === 'es' ? 'Transcribiendo...' : 'Transkribatzen...' });
+      const newSessionId = Date.now().toString();
+      setSessionId(newSessionId);
+      setProcessingState({ status: 'transcribing', message: language === 'es' ? 'Transcribiendo...' : 'Transkribatzen...', progress: 0 });
+      const controller = new AbortController();
+      transcriptionAbort.current = controller;
       try {
-        const transcript = await transcribeAudio(selectedFile, language);
+        const transcript = await transcribeAudio(selectedFile, language, {
+          signal: controller.signal,
+          onPartial: (partial, progress) => {
+            setSegments(partial);
+            setProcessingState({ status: 'transcribing', message: language === 'es' ? `Transcribiendo... ${progress}%` : `Transkribatzen... %${progress}`, progress });
+          }
+        });
+        // A cancelled run keeps whatever arrived as a partial session; with nothing, there is no session.
+        if (transcript.length === 0 && controller.signal.aborted) {
+          resetSession();
+          return;
+        }
         setSegments(transcript);
         setProcessingState({ status: 'completed' });
         saveCurrentSession();
+        saveMedia(newSessionId, selectedFile).catch(err => console.error("Media save error:", err));
       } catch (error: any) {
         setProcessingState({ status: 'error', message: error.message });
+      } finally {
+        transcriptionAbort.current = null;
       }
     }
   };
 
-  const handleDownloadWithReview = async (format: 'txt' | 'md') => {
+  const handleStartRecording = async () => {
+    resetSession();
+    const recordingSessionId = Date.now().toString();
+    // Results only ever land in the recording's own session, even if another one is open by then.
+    const transcriber = createLiveTranscriber(language, (live) => {
+      if (useAppStore.getState().sessionId === recordingSessionId) appendSegments(live);
+    });
+    let recorder: LiveRecorder;
+    try {
+      recorder = await startLiveRecorder(LIVE_CHUNK_MS, transcriber.push);
+    } catch (error) {
+      console.error("Microphone error:", error);
+      setProcessingState({ status: 'error', message: language === 'es' ? 'No se pudo acceder al micrófono.' : 'Ezin izan da mikrofonoa erabili.' });
+      return;
+    }
+    liveSession.current = { id: recordingSessionId, transcriber };
+    setLiveRecorder(recorder);
+    setFile(null);
+    setFileName(language === 'es' ? `Grabación ${new Date().toLocaleString()}` : `Grabazioa ${new Date().toLocaleString()}`);
+    setSessionId(recordingSessionId);
+    setProcessingState({ status: 'recording' });
+  };
+
+  // Leaving the recording's session (new session, opening a saved one) releases the microphone
+  // and drops pending live results. The audio is still kept if the session was saved.
+  useEffect(() => {
+    if (!liveRecorder || !liveSession.current || liveSession.current.id === sessionId) return;
+    const abandoned = liveSession.current;
+    abandoned?.transcriber.cancel();
+    liveRecorder.stop().then(async (recording) => {
+      if (!abandoned || !useAppStore.getState().savedSessions.some(s => s.id === abandoned.id)) return;
+      const media = new File([await toWav(recording)], `grabacion_${abandoned.id}.wav`, { type: 'audio/wav' });
+      await saveMedia(abandoned.id, media);
+    }).catch(err => console.error("Media save error:", err));
+    setLiveRecorder(null);
+    liveSession.current = null;
+  }, [liveRecorder, sessionId]);
+
+  // Live segments stay on screen while the full recording is transcribed again in one pass,
+  // which fixes words cut at chunk boundaries.
+  const handleStopRecording = async () => {
+    const recorder = liveRecorder;
+    const session = liveSession.current;
+    if (!recorder || !session) return;
+    const { id: recordingSessionId, transcriber } = session;
+    setLiveRecorder(null);
+    liveSession.current = null;
+    setProcessingState({ status: 'transcribing', message: language === 'es' ? 'Terminando la transcripción en directo...' : 'Zuzeneko transkripzioa amaitzen...' });
+    const controller = new AbortController();
+    transcriptionAbort.current = controller;
+    try {
+      const recording = await recorder.stop();
+      await transcriber.flush();
+      // WAV so every provider accepts it and the player can seek it.
+      const media = new File([await toWav(recording)], `grabacion_${recordingSessionId}.wav`, { type: 'audio/wav' });
+      setFile(media);
+      saveMedia(recordingSessionId, media).catch(err => console.error("Media save error:", err));
+      saveCurrentSession();
+      if (controller.signal.aborted) {
+        setProcessingState({ status: 'completed' });
+        return;
+      }
+      setProcessingState({ status: 'transcribing', message: language === 'es' ? 'Transcripción final...' : 'Azken transkripzioa...', progress: 0 });
+      const transcript = await transcribeAudio(media, language, {
+        signal: controller.signal,
+        onPartial: (_partial, progress) => {
+          setProcessingState({ status: 'transcribing', message: language === 'es' ? `Transcripción final... ${progress}%` : `Azken transkripzioa... %${progress}`, progress });
+        }
+      });
+      // A cancelled final pass keeps the live segments.
+      if (!controller.signal.aborted && transcript.length > 0 && useAppStore.getState().sessionId === recordingSessionId) setSegments(transcript);
+      setProcessingState({ status: 'completed' });
+      saveCurrentSession();
+    } catch (error: any) {
+      setProcessingState({ status: 'error', message: error.message });
+    } finally {
+      transcriptionAbort.current = null;
+    }
+  };
+
+  const handleImportTranscript = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const importedFile = e.target.files?.[0];
+    e.target.value = '';
+    if (!importedFile) return;
+    try {
+      const imported = await parseTranscriptFile(importedFile);
+      setFile(null);
+      setFileName(importedFile.name);
+      setSessionId(Date.now().toString());
+      setSegments(imported);
+      setProcessingState({ status: 'completed' });
+      saveCurrentSession();
+    } catch (error) {
+      console.error("Import error:", error);
+      setProcessingState({ status: 'error', message: language === 'es' ? 'No se pudo importar la transcripción. Formatos admitidos: SRT, VTT, JSON y texto.' : 'Ezin izan da transkripzioa inportatu. Onartutako formatuak: SRT, VTT, JSON eta testua.' });
+    }
+  };
+
+  const handleAttachMedia = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const media = e.target.files?.[0];
+    e.target.value = '';
+    if (!media || !sessionId) return;
+    setFile(media);
+    saveMedia(sessionId, media).catch(err => console.error("Media save error:", err));
+  };
+
+  const generateMode = async (mode: EditMode) => {
+    const raw = getModeSegments(EditMode.RAW);
+    if (!raw || isRecording) return;
+    setProcessingState({ status: 'refining', message: language === 'es' ? `Generando versión ${modeLabels[mode].es.toLowerCase()}...` : `${modeLabels[mode].eu} bertsioa sortzen...` });
+    try {
+      const rewritten = await transformSegments(raw, mode, language);
+      setModeSegments(mode, rewritten);
+      setEditMode(mode);
+      setProcessingState({ status: 'completed' });
+      saveCurrentSession();
+    } catch (error: any) {
+      setProcessingState({ status: 'error', message: error.message });
+    }
+  };
+
+  const handleModeChange = (mode: EditMode) => {
+    if (mode === editMode || isRecording) return;
+    if (getModeSegments(mode)) {
+      setEditMode(mode);
+      saveCurrentSession();
+    } else {
+      generateMode(mode);
+    }
+  };
+
+  const handleReview = async () => {
     setShowDownloadMenu(false);
-    setIsReviewing(true);
+    if (isRecording) return;
     setProcessingState({ status: 'refining', message: language === 'es' ? 'Revisión final IA...' : 'Azken IA berrikuspena...' });
     try {
-      const reviewedText = await reviewTranscript(segments, language);
-      const name = `${fileName.split('.')[0]}_revisado.${format}`;
-      const blob = new Blob([reviewedText], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = name;
-      a.click();
+      const reviewSuggestions = await reviewTranscript(segments, language);
+      setSuggestions(reviewSuggestions);
+      setProcessingState({ status: 'completed' });
+    } catch (error: any) {
+      setProcessingState({ status: 'error', message: error.message });
+    }
+  };
+
+  const matches = useMemo(() => findMatches(segments, findOptions), [segments, findOptions]);
+  const currentMatchIndex = Math.min(matchIndex, matches.length - 1);
+  const currentMatch = matches[currentMatchIndex] ?? null;
+
+  const updateFindOptions = (options: FindOptions) => {
+    setFindOptions(options);
+    setMatchIndex(0);
+  };
+
+  const goToMatch = (delta: number) => {
+    if (matches.length === 0) return;
+    const next = (currentMatchIndex + delta + matches.length) % matches.length;
+    setMatchIndex(next);
+  };
+
+  // Review queue of passages the provider was unsure of, played back one by one.
+  const uncertainIds = useMemo(() => segments.filter(isUncertain).map(s => s.id), [segments]);
+  const currentUncertainIndex = Math.min(uncertainIndex, uncertainIds.length - 1);
+
+  const reviewUncertain = (ids: string[], index: number) => {
+    const segment = segments.find(s => s.id === ids[index]);
+    if (!segment) return;
+    setUncertainIndex(index);
+    setFocusRequest({ segmentId: segment.id });
+    setSeekRequest(segment.startMs / 1000);
+  };
+
+  const goToUncertain = (delta: number) => {
+    if (uncertainIds.length === 0) return;
+    const from = currentUncertainIndex === -1 && delta < 0 ? 0 : currentUncertainIndex;
+    reviewUncertain(uncertainIds, (from + delta + uncertainIds.length) % uncertainIds.length);
+  };
+
+  // Verifying moves on to the next passage, which takes the verified one's place in the queue.
+  const handleVerifyUncertain = () => {
+    const id = uncertainIds[currentUncertainIndex];
+    if (!id) return;
+    markSegmentVerified(id);
+    const remaining = uncertainIds.filter(other => other !== id);
+    if (remaining.length > 0) reviewUncertain(remaining, currentUncertainIndex % remaining.length);
+  };
+
+  // Continues from just after the replaced text, so a replacement that itself matches is not hit again.
+  const handleReplace = () => {
+    if (!currentMatch) return;
+    const texts = applyReplacements(segments, [currentMatch], replacement, findOptions.regex);
+    replaceSegmentTexts(texts);
+    const updated = segments.map(s => texts[s.id] !== undefined ? { ...s, text: texts[s.id] } : s);
+    const original = segments.find(s => s.id === currentMatch.segmentId)!.text;
+    const resumeAt = texts[currentMatch.segmentId].length - (original.length - currentMatch.end);
+    const segmentOrder = new Map(updated.map((s, i) => [s.id, i]));
+    const currentOrder = segmentOrder.get(currentMatch.segmentId)!;
+    const remaining = findMatches(updated, findOptions);
+    const next = remaining.findIndex(m => segmentOrder.get(m.segmentId)! > currentOrder || (m.segmentId === currentMatch.segmentId && m.start >= resumeAt));
+    setMatchIndex(next === -1 ? 0 : next);
+  };
+
+  const handleReplaceAll = () => {
+    if (matches.length === 0) return;
+    replaceSegmentTexts(applyReplacements(segments, matches, replacement, findOptions.regex));
+    setMatchIndex(0);
+  };
+
+  const handleApplyGlossary = () => {
+    const entries = getActiveGlossary();
+    const texts = Object.fromEntries(segments.map(s => [s.id, applyGlossary(s.text, entries)]).filter(([id, text]) => text !== segments.find(s => s.id === id)!.text));
+    if (Object.keys(texts).length > 0) replaceSegmentTexts(texts);
+    setIsGlossaryOpen(false);
+  };
+
+  const handleExportGlossary = (scope: GlossaryScope) => {
+    const entries = scope === 'user' ? glossary : sessionGlossary;
+    const name = scope === 'user' ? 'glosario' : `${fileName.split('.')[0]}_glosario`;
+    // The BOM makes spreadsheet apps read the file as UTF-8.
+    downloadFile('\uFEFF' + toGlossaryCsv(entries), `${name}.csv`, 'text/csv');
+  };
+
+  // Inserts at the cursor of the segment being typed in; elsewhere the hotkey does nothing.
+  const handleInsertTimestamp = (seconds: number) => {
+    const el = document.activeElement;
+    if (!(el instanceof HTMLTextAreaElement) || !el.dataset.segmentId) return;
+    const stamp = `[${formatTimestamp(seconds * 1000)}] `;
+    const { selectionStart, selectionEnd, value } = el;
+    updateSegment(el.dataset.segmentId, value.slice(0, selectionStart) + stamp + value.slice(selectionEnd));
+    requestAnimationFrame(() => el.setSelectionRange(selectionStart + stamp.length, selectionStart + stamp.length));
+  };
+
+  const handleGrabFrame = (frame: Blob, seconds: number) => {
+    downloadFile(frame, `${fileName.split('.')[0]}_${formatTimestamp(seconds * 1000).replace(/:/g, '-')}.png`, 'image/png');
+  };
+
+  // Live caption for video: the segment playing now, hidden in silences after its end.
+  const captionSegment = segments[findSegmentIndexAt(segments, currentTime * 1000)];
+  const caption = captionSegment && currentTime * 1000 < (captionSegment.endMs ?? Infinity) ? captionSegment.text : null;
+
+  // Estimates word timings from the audio for segments that did not get them from the provider.
+  const handleAlignWords = async () => {
+    if (!file || isRecording) return;
+    setProcessingState({ status: 'refining', message: language === 'es' ? 'Sincronizando palabras con el audio...' : 'Hitzak audioarekin sinkronizatzen...' });
+    try {
+      const buffer = await decodeAudio(file);
+      const pending = segments.filter(s => !hasValidWords(s));
+      setWordTimings(estimateWordTimings(pending, computeEnergyEnvelope(buffer), buffer.duration));
+      setProcessingState({ status: 'completed' });
+      saveCurrentSession();
     } catch (error) {
-      setProcessingState({ status: 'error', message: "Error en la revisión final." });
-    } finally {
-      setIsReviewing(false);
+      console.error("Word alignment error:", error);
+      setProcessingState({ status: 'error', message: language === 'es' ? 'No se pudo sincronizar el texto con el audio.' : 'Ezin izan da testua audioarekin sinkronizatu.' });
+    }
+  };
+
+  const handleLoadSession = async (session: StoredSession) => {
+    if (session.id === sessionId) {
+      setSidebarOpen(false);
+      return;
+    }
+    saveCurrentSession();
+    setFile(null);
+    setCurrentTime(0);
+    loadSession(session);
+    try {
+      const media = await loadMedia(session.id);
+      // The user may have opened another session while the blob was loading.
+      if (useAppStore.getState().sessionId === session.id) setFile(media);
+    } catch (err) {
+      console.error("Media load error:", err);
+    }
+  };
+
+  const targetLanguage: Language = language === 'es' ? 'eu' : 'es';
+
+  // Translation of the mode on screen; entries whose segment has changed since are stale.
+  const translationTrack = translation?.tracks[editMode] ?? {};
+  const outdatedTranslations = translation ? segments.filter(s => translationTrack[s.id]?.source !== s.text) : [];
+
+  // Translates what has no up-to-date translation in this mode: everything the first time, then
+  // edited segments, segments added by splits and modes not translated yet.
+  const handleTranslate = async (ids?: string[]) => {
+    if (isRecording) return;
+    setShowTranslation(true);
+    const pending = segments.filter(s => translationTrack[s.id]?.source !== s.text && (!ids || ids.includes(s.id)));
+    if (pending.length === 0) return;
+    const mode = editMode;
+    setProcessingState({ status: 'refining', message: language === 'es' ? 'Traduciendo al euskera...' : 'Gaztelaniara itzultzen...' });
+    try {
+      const texts = await translateSegments(pending, targetLanguage);
+      const translated = Object.fromEntries(pending.filter(s => texts[s.id] !== undefined).map(s => [s.id, { text: texts[s.id], source: s.text }]));
+      const current = useAppStore.getState().translation;
+      const tracks = current?.language === targetLanguage ? current.tracks : {};
+      setTranslation({ language: targetLanguage, tracks: { ...tracks, [mode]: { ...tracks[mode], ...translated } } });
       setProcessingState({ status: 'completed' });
+    } catch (error: any) {
+      setProcessingState({ status: 'error', message: error.message });
     }
   };
 
-  const handleDownloadRaw = (format: 'txt' | 'md' | 'json') => {
+  // The export track keeps the source speakers and timestamps and swaps in the translated text.
+  const isTranslationTrack = exportTrack === 'translation' && translation !== null;
+  const exportSegments = isTranslationTrack
+    ? segments.map(({ words, ...s }) => ({ ...s, text: translationTrack[s.id]?.text ?? s.text }))
+    : segments;
+  const exportLanguage = isTranslationTrack ? translation.language : language;
+  const exportBaseName = `${fileName.split('.')[0]}${isTranslationTrack ? `_${translation.language}` : ''}`;
+
+  const handleDownloadDocument = async (format: 'docx' | 'pdf') => {
     setShowDownloadMenu(false);
-    let content = format === 'json' ? JSON.stringify(segments, null, 2) : segments.map(s => `[${s.startTime}] ${s.speaker}: ${s.text}`).join('\n\n');
-    const blob = new Blob([content], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${fileName.split('.')[0]}.${format}`;
-    a.click();
+    if (isRecording) return;
+    const meta = {
+      title: fileName,
+      date: savedSessions.find(s => s.id === sessionId)?.date ?? Date.now(),
+      language: exportLanguage,
+      versionLabel: modeLabels[editMode][exportLanguage],
+      speakers
+    };
+    try {
+      const blob = format === 'docx'
+        ? await toDocx(exportSegments, meta, { includeTimestamps })
+        : await toPdf(exportSegments, meta, { includeTimestamps });
+      downloadFile(blob, `${exportBaseName}.${format}`, blob.type);
+    } catch (error) {
+      console.error("Document export error:", error);
+      setProcessingState({ status: 'error', message: language === 'es' ? 'Error al generar el documento.' : 'Errorea dokumentua sortzean.' });
+    }
   };
 
-  if (!sessionId && processingState.status === 'idle') {
+  const handleDownloadRaw = (format: 'txt' | 'md' | 'json' | 'srt' | 'vtt') => {
+    setShowDownloadMenu(false);
+    const options = { ...subtitleOptions, totalDuration: mediaDuration || undefined };
+    let content: string;
+    switch (format) {
+      case 'json': content = JSON.stringify(exportSegments, null, 2); break;
+      case 'srt': content = toSrt(exportSegments, options); break;
+      case 'vtt': content = toWebVtt(exportSegments, options); break;
+      default: content = exportSegments.map(s => `[${formatTimestamp(s.startMs)}] ${s.speaker}: ${s.text}`).join('\n\n');
+    }
+    downloadFile(content, `${exportBaseName}.${format}`, format === 'vtt' ? 'text/vtt' : 'text/plain');
+  };
+
+  const overlays = (
+    <>
+      <SettingsPanel
+        isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)}
+        settings={providerSettings} onSave={setProviderSettings} language={language}
+      />
+      <SessionSidebar
+        isOpen={isSidebarOpen} onClose={() => setSidebarOpen(false)}
+        sessions={savedSessions} activeSessionId={sessionId}
+        onLoadSession={handleLoadSession} onDeleteSession={deleteSession}
+        onRenameSession={renameSession} onDuplicateSession={duplicateSession}
+        language={language}
+      />
+      <SpeakerPanel
+        isOpen={isSpeakerPanelOpen} onClose={() => setIsSpeakerPanelOpen(false)}
+        segments={segments} speakers={speakers}
+        onRename={renameSpeaker} onAssignRange={assignSpeakerRange} onUpdateProfile={setSpeakerProfile}
+        language={language}
+      />
+      <PlaybackControlsPanel
+        isOpen={isControlsOpen} onClose={() => setIsControlsOpen(false)}
+        settings={playbackSettings} onSave={setPlaybackSettings} language={language}
+      />
+      <GlossaryPanel
+        isOpen={isGlossaryOpen} onClose={() => setIsGlossaryOpen(false)}
+        userEntries={glossary} sessionEntries={sessionGlossary}
+        onChange={setGlossary} onExport={handleExportGlossary} onApply={handleApplyGlossary}
+        language={language}
+      />
+    </>
+  );
+
+  if (!sessionId && (processingState.status === 'idle' || processingState.status === 'error')) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen bg-paper p-6">
+        {overlays}
         <div className="max-w-md w-full bg-white p-10 rounded-2xl shadow-xl border border-gray-100 text-center animate-[fadeIn_0.5s_ease-out]">
           <div className="flex justify-center mb-6 text-indigo-600"><UploadIcon /></div>
           <h1 className="text-3xl font-serif font-bold mb-4">HarryUP</h1>
-          <p className="text-gray-500 mb-8 leading-relaxed">Sube audios o vídeos (hasta 50MB) para transcripción periodística.</p>
+          <p className="text-gray-500 mb-8 leading-relaxed">Sube audios o vídeos para transcripción periodística. Las grabaciones largas se procesan por fragmentos.</p>
           <div className="flex justify-center gap-2 mb-8">
             <button onClick={() => setLanguage('es')} className={`px-4 py-1.5 rounded-lg font-medium transition-all ${language === 'es' ? 'bg-indigo-600 text-white shadow-md' : 'bg-gray-100 text-gray-500'}`}>ES</button>
             <button onClick={() => setLanguage('eu')} className={`px-4 py-1.5 rounded-lg font-medium transition-all ${language === 'eu' ? 'bg-indigo-600 text-white shadow-md' : 'bg-gray-100 text-gray-500'}`}>EU</button>
@@ -89,6 +527,25 @@ const App: React.FC = () => {
             {language === 'es' ? 'Empezar ahora' : 'Hasi orain'}
             <input type="file" accept="audio/*,video/*" onChange={handleFileChange} className="hidden" />
           </label>
+          <button onClick={handleStartRecording} className="mt-3 w-full flex items-center justify-center gap-2 py-3 rounded-xl border border-gray-200 text-gray-700 font-medium hover:border-red-200 hover:text-red-600 transition-colors">
+            <MicrophoneIcon /> {language === 'es' ? 'Grabar desde el micrófono' : 'Grabatu mikrofonotik'}
+          </button>
+          <label className="block mt-3 text-sm text-gray-500 cursor-pointer hover:text-indigo-600">
+            {language === 'es' ? 'o importar una transcripción (SRT, VTT, JSON, TXT)' : 'edo inportatu transkripzio bat (SRT, VTT, JSON, TXT)'}
+            <input type="file" accept=".srt,.vtt,.json,.txt,text/plain,text/vtt,application/json" onChange={handleImportTranscript} className="hidden" />
+          </label>
+          {processingState.status === 'error' && <p className="mt-4 text-sm text-red-600">{processingState.message}</p>}
+          <button onClick={() => setIsSettingsOpen(true)} className="mt-4 inline-flex items-center gap-1 text-xs text-gray-400 hover:text-indigo-600">
+            <CogIcon /> {providerSettings.provider === 'gemini' ? 'Google Gemini' : providerSettings.endpoint}
+          </button>
+          <button onClick={() => setIsGlossaryOpen(true)} className="mt-4 ml-4 inline-flex items-center gap-1 text-xs text-gray-400 hover:text-indigo-600 [&>svg]:w-4 [&>svg]:h-4">
+            <BookIcon /> {language === 'es' ? `Glosario (${glossary.length})` : `Glosarioa (${glossary.length})`}
+          </button>
+          {savedSessions.length > 0 && (
+            <button onClick={() => setSidebarOpen(true)} className="mt-4 text-sm text-indigo-600 hover:underline">
+              {language === 'es' ? `Abrir sesiones guardadas (${savedSessions.length})` : `Ireki gordetako saioak (${savedSessions.length})`}
+            </button>
+          )}
         </div>
       </div>
     );
@@ -96,6 +553,7 @@ const App: React.FC = () => {
 
   return (
     <div className="h-screen bg-paper flex flex-col overflow-hidden">
+      {overlays}
       <header className="bg-white border-b border-gray-200 h-16 flex items-center justify-between px-6 z-40 gap-4">
         <div className="flex items-center gap-4 shrink-0">
           <button onClick={() => setSidebarOpen(true)} className="p-2 text-gray-400 hover:bg-gray-100 rounded-lg"><MenuIcon /></button>
@@ -105,34 +563,184 @@ const App: React.FC = () => {
         <div className="flex-1 max-w-xl relative">
           <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none text-gray-400"><SearchIcon /></div>
           <input
-            type="text" value={searchTerm} onChange={(e) => setSearchTerm(e.target.value)}
+            ref={searchInput} type="text" value={findOptions.query} onChange={(e) => updateFindOptions({ ...findOptions, query: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') { e.preventDefault(); goToMatch(e.shiftKey ? -1 : 1); }
+              if (e.key === 'Escape') { e.stopPropagation(); updateFindOptions({ ...findOptions, query: '' }); }
+            }}
             placeholder={language === 'es' ? "Buscar..." : "Bilatu..."}
-            className="w-full pl-10 pr-10 py-2 bg-gray-50 border border-gray-200 rounded-full text-sm focus:bg-white focus:ring-2 focus:ring-indigo-100 outline-none"
+            className={`w-full pl-10 pr-44 py-2 bg-gray-50 border rounded-full text-sm focus:bg-white focus:ring-2 focus:ring-indigo-100 outline-none ${findOptions.query && !buildMatcher(findOptions) ? 'border-red-300' : 'border-gray-200'}`}
           />
-          {searchTerm && <button onClick={() => setSearchTerm('')} className="absolute inset-y-0 right-3 flex items-center text-gray-400 hover:text-gray-600"><XMarkIcon /></button>}
+          <div className="absolute inset-y-0 right-3 flex items-center gap-0.5 text-gray-400">
+            {findOptions.query && (
+              <>
+                <span className="text-xs font-mono px-1 tabular-nums">{matches.length > 0 ? `${currentMatchIndex + 1}/${matches.length}` : '0/0'}</span>
+                <button onClick={() => goToMatch(-1)} disabled={matches.length === 0} title={language === 'es' ? 'Anterior (Mayús+Intro)' : 'Aurrekoa (Maius+Sartu)'} className="p-1 rounded hover:text-gray-600 disabled:opacity-30"><ChevronUpIcon /></button>
+                <button onClick={() => goToMatch(1)} disabled={matches.length === 0} title={language === 'es' ? 'Siguiente (Intro)' : 'Hurrengoa (Sartu)'} className="p-1 rounded hover:text-gray-600 disabled:opacity-30"><ChevronDownIcon /></button>
+              </>
+            )}
+            <button
+              onClick={() => setIsReplaceOpen(!isReplaceOpen)} title={language === 'es' ? 'Reemplazar y opciones' : 'Ordeztu eta aukerak'}
+              className={`px-1.5 py-0.5 rounded text-xs font-medium ${isReplaceOpen ? 'bg-indigo-100 text-indigo-600' : 'hover:text-gray-600'}`}
+            >{language === 'es' ? 'Reemplazar' : 'Ordeztu'}</button>
+            {findOptions.query && <button onClick={() => updateFindOptions({ ...findOptions, query: '' })} className="p-1 hover:text-gray-600 [&>svg]:w-4 [&>svg]:h-4"><XMarkIcon /></button>}
+          </div>
         </div>
 
         <div className="flex items-center gap-2 shrink-0">
-          <button onClick={() => setIsAiAssistantOpen(!isAiAssistantOpen)} className={`p-2 rounded-lg transition-colors ${isAiAssistantOpen ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-100'}`}><SparklesIcon /></button>
+          <div className="hidden md:flex items-center bg-gray-100 rounded-lg p-0.5">
+            {Object.values(EditMode).map(mode => (
+              <button key={mode} onClick={() => handleModeChange(mode)} disabled={isRecording} className={`disabled:opacity-50 px-3 py-1 text-xs font-medium rounded-md transition-all ${editMode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}>{modeLabels[mode][language]}</button>
+            ))}
+          </div>
+          {editMode !== EditMode.RAW && (
+            <button onClick={() => generateMode(editMode)} disabled={isRecording} title={language === 'es' ? 'Regenerar desde la transcripción literal' : 'Birsortu hitzez hitzeko transkripziotik'} className="p-2 text-gray-400 hover:bg-gray-100 hover:text-indigo-600 rounded-lg disabled:opacity-30"><MagicIcon /></button>
+          )}
+          {file && (
+            <button
+              onClick={() => setShowWaveform(!showWaveform)} title={language === 'es' ? 'Forma de onda' : 'Uhin-forma'}
+              className={`p-2 rounded-lg transition-colors ${showWaveform ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-100 hover:text-indigo-600'}`}
+            ><WaveformIcon /></button>
+          )}
+          {file && (
+            <button onClick={handleAlignWords} title={language === 'es' ? 'Sincronizar palabras con el audio' : 'Sinkronizatu hitzak audioarekin'} className="p-2 text-gray-400 hover:bg-gray-100 hover:text-indigo-600 rounded-lg"><ClockIcon /></button>
+          )}
+          <button
+            onClick={() => showTranslation ? setShowTranslation(false) : handleTranslate()}
+            disabled={isRecording && !showTranslation}
+            title={language === 'es' ? 'Traducción al euskera en paralelo' : 'Gaztelaniazko itzulpena paraleloan'}
+            className={`p-2 rounded-lg transition-colors disabled:opacity-30 ${showTranslation ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-100 hover:text-indigo-600'}`}
+          ><LanguageIcon /></button>
+          <button onClick={() => setIsSpeakerPanelOpen(true)} title={language === 'es' ? 'Hablantes' : 'Hizlariak'} className="p-2 text-gray-400 hover:bg-gray-100 hover:text-indigo-600 rounded-lg"><UsersIcon /></button>
+          <button onClick={() => setIsGlossaryOpen(true)} title={language === 'es' ? 'Glosario' : 'Glosarioa'} className="p-2 text-gray-400 hover:bg-gray-100 hover:text-indigo-600 rounded-lg"><BookIcon /></button>
+          <button onClick={undo} disabled={past.length === 0} title={language === 'es' ? 'Deshacer (Ctrl+Z)' : 'Desegin (Ctrl+Z)'} className="p-2 text-gray-400 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent"><UndoIcon /></button>
+          <button onClick={redo} disabled={future.length === 0} title={language === 'es' ? 'Rehacer (Ctrl+Shift+Z)' : 'Berregin (Ctrl+Shift+Z)'} className="p-2 text-gray-400 hover:bg-gray-100 rounded-lg disabled:opacity-30 disabled:hover:bg-transparent"><RedoIcon /></button>
+          <div className="h-6 w-px bg-gray-200 mx-1"></div>
+          <button onClick={() => { setIsQuotesOpen(!isQuotesOpen); setIsAiAssistantOpen(false); }} title={language === 'es' ? 'Citas' : 'Aipuak'} className={`p-2 rounded-lg transition-colors ${isQuotesOpen ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-100'}`}><QuoteIcon /></button>
+          <button onClick={() => { setIsAiAssistantOpen(!isAiAssistantOpen); setIsQuotesOpen(false); }} className={`p-2 rounded-lg transition-colors ${isAiAssistantOpen ? 'bg-indigo-100 text-indigo-600' : 'text-gray-400 hover:bg-gray-100'}`}><SparklesIcon /></button>
+          <button onClick={() => setIsSettingsOpen(true)} title={language === 'es' ? 'Proveedor de IA' : 'IA hornitzailea'} className="p-2 text-gray-400 hover:bg-gray-100 rounded-lg"><CogIcon /></button>
           <div className="h-6 w-px bg-gray-200 mx-1"></div>
           <button onClick={() => setShowDownloadMenu(!showDownloadMenu)} className="p-2 bg-indigo-600 text-white rounded-lg shadow-sm hover:bg-indigo-700"><DownloadIcon /></button>
           {showDownloadMenu && (
             <div className="absolute right-6 top-14 bg-white shadow-2xl border border-gray-100 rounded-xl py-2 w-56 animate-[scaleIn_0.1s_ease-out]">
-              <button onClick={() => handleDownloadWithReview('md')} className="w-full text-left px-4 py-2 text-sm hover:bg-indigo-50 text-indigo-600 font-medium">✨ Revisar y bajar .md</button>
+              <button onClick={handleReview} disabled={isRecording} className="disabled:opacity-40 w-full text-left px-4 py-2 text-sm hover:bg-indigo-50 text-indigo-600 font-medium">✨ {language === 'es' ? 'Revisar con IA antes de exportar' : 'Berrikusi IArekin esportatu aurretik'}</button>
+              <div className="h-px bg-gray-100 my-1"></div>
+              {translation && (
+                <div className="flex items-center bg-gray-100 rounded-lg p-0.5 mx-4 my-1 text-xs">
+                  {(['source', 'translation'] as const).map(track => (
+                    <button key={track} onClick={() => setExportTrack(track)} className={`flex-1 px-2 py-1 rounded-md ${exportTrack === track ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}>
+                      {(track === 'source' ? language : translation.language) === 'es' ? 'Castellano' : 'Euskara'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {isTranslationTrack && outdatedTranslations.length > 0 && (
+                <p className="px-4 py-1 text-xs text-amber-700">
+                  {language === 'es' ? `${outdatedTranslations.length} segmentos sin traducir o con la traducción desactualizada.` : `${outdatedTranslations.length} segmentu itzuli gabe edo itzulpen zaharkituarekin.`}
+                </p>
+              )}
+              <button onClick={() => handleDownloadDocument('docx')} disabled={isRecording} className="disabled:opacity-40 w-full text-left px-4 py-2 text-sm hover:bg-gray-50">Word (.docx)</button>
+              <button onClick={() => handleDownloadDocument('pdf')} disabled={isRecording} className="disabled:opacity-40 w-full text-left px-4 py-2 text-sm hover:bg-gray-50">PDF (.pdf)</button>
+              <label className="flex items-center gap-2 px-4 py-1 text-xs text-gray-500">
+                <input type="checkbox" checked={includeTimestamps} onChange={(e) => setIncludeTimestamps(e.target.checked)} />
+                {language === 'es' ? 'Incluir marcas de tiempo' : 'Denbora-markak sartu'}
+              </label>
               <div className="h-px bg-gray-100 my-1"></div>
               <button onClick={() => handleDownloadRaw('txt')} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50">Texto (.txt)</button>
               <button onClick={() => handleDownloadRaw('json')} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50">JSON (.json)</button>
+              <div className="h-px bg-gray-100 my-1"></div>
+              <button onClick={() => handleDownloadRaw('srt')} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50">{language === 'es' ? 'Subtítulos' : 'Azpitituluak'} (.srt)</button>
+              <button onClick={() => handleDownloadRaw('vtt')} className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50">WebVTT (.vtt)</button>
+              <div className="px-4 py-2 space-y-2 text-xs text-gray-500">
+                <label className="flex items-center justify-between gap-2">
+                  {language === 'es' ? 'Caracteres por línea' : 'Karaktere lerroko'}
+                  <input type="number" min={20} max={80} value={subtitleOptions.maxCharsPerLine} onChange={(e) => setSubtitleOptions({ ...subtitleOptions, maxCharsPerLine: Number(e.target.value) || defaultSubtitleOptions.maxCharsPerLine })} className="w-14 border border-gray-200 rounded px-1 py-0.5 text-right" />
+                </label>
+                <label className="flex items-center justify-between gap-2">
+                  {language === 'es' ? 'Duración máx. (s)' : 'Gehienezko iraupena (s)'}
+                  <input type="number" min={1} max={20} value={subtitleOptions.maxCueDuration} onChange={(e) => setSubtitleOptions({ ...subtitleOptions, maxCueDuration: Number(e.target.value) || defaultSubtitleOptions.maxCueDuration })} className="w-14 border border-gray-200 rounded px-1 py-0.5 text-right" />
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="checkbox" checked={subtitleOptions.includeSpeakers} onChange={(e) => setSubtitleOptions({ ...subtitleOptions, includeSpeakers: e.target.checked })} />
+                  {language === 'es' ? 'Etiquetas de hablante' : 'Hizlarien etiketak'}
+                </label>
+              </div>
             </div>
           )}
           <button onClick={() => resetSession()} className="p-2 text-gray-400 hover:text-red-500"><PlusIcon /></button>
         </div>
       </header>
+      {isReplaceOpen && (
+        <FindReplaceBar
+          options={findOptions} onOptionsChange={updateFindOptions}
+          replacement={replacement} onReplacementChange={setReplacement}
+          speakerNames={Array.from(new Set(segments.map(s => s.speaker)))}
+          matchCount={matches.length} isPatternValid={!findOptions.query || buildMatcher(findOptions) !== null}
+          onReplace={handleReplace} onReplaceAll={handleReplaceAll}
+          language={language}
+        />
+      )}
+
+      {processingState.status === 'error' && (
+        <div className="bg-red-50 border-b border-red-100 text-red-600 text-sm px-6 py-2 flex items-center justify-between">
+          <span>{processingState.message}</span>
+          <button onClick={() => setProcessingState({ status: 'completed' })} className="text-red-400 hover:text-red-600"><XMarkIcon /></button>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="bg-amber-50 border-b border-amber-100 text-amber-800 text-sm px-6 py-2 flex items-center justify-between gap-4">
+          <span>{language === 'es' ? `${suggestions.length} sugerencias de revisión pendientes. Las exportaciones usan el texto aceptado.` : `${suggestions.length} berrikuspen-iradokizun zain. Esportazioek onartutako testua erabiltzen dute.`}</span>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={acceptAllSuggestions} className="px-3 py-1 rounded-md bg-amber-600 text-white hover:bg-amber-700">{language === 'es' ? 'Aceptar todas' : 'Onartu guztiak'}</button>
+            <button onClick={rejectAllSuggestions} className="px-3 py-1 rounded-md text-amber-700 hover:bg-amber-100">{language === 'es' ? 'Rechazar todas' : 'Baztertu guztiak'}</button>
+          </div>
+        </div>
+      )}
+
+      {uncertainIds.length > 0 && (
+        <div className="bg-white border-b border-gray-100 text-sm px-6 py-1.5 flex items-center justify-between gap-4">
+          <span className="text-gray-500">
+            <span className="underline decoration-wavy decoration-amber-400 underline-offset-4">{language === 'es' ? 'Pasajes dudosos' : 'Zalantzazko pasarteak'}</span>
+            <span className="ml-2 text-xs font-mono tabular-nums">{currentUncertainIndex >= 0 ? `${currentUncertainIndex + 1}/${uncertainIds.length}` : uncertainIds.length}</span>
+          </span>
+          <div className="flex items-center gap-1 shrink-0 text-gray-400">
+            <button onClick={() => goToUncertain(-1)} title={language === 'es' ? 'Anterior' : 'Aurrekoa'} className="p-1 rounded hover:text-gray-600"><ChevronUpIcon /></button>
+            <button onClick={() => goToUncertain(1)} title={language === 'es' ? 'Siguiente dudoso' : 'Hurrengo zalantzazkoa'} className="p-1 rounded hover:text-gray-600"><ChevronDownIcon /></button>
+            {currentUncertainIndex >= 0 && (
+              <button onClick={handleVerifyUncertain} className="ml-2 px-3 py-1 rounded-md text-emerald-700 hover:bg-emerald-50">{language === 'es' ? 'Marcar como verificado' : 'Markatu egiaztatu gisa'}</button>
+            )}
+          </div>
+        </div>
+      )}
 
-      <main className="flex-grow overflow-y-auto relative">
+      <main className={`flex-grow overflow-y-auto relative ${showWaveform && file ? 'pb-24' : ''}`}>
+        {processingState.status === 'recording' && liveRecorder && (
+          <RecordingBar recorder={liveRecorder} onStop={handleStopRecording} language={language} />
+        )}
+        {processingState.status === 'transcribing' && (
+          <div className="max-w-3xl mx-auto pt-8 px-4 sm:px-6">
+            <div className="bg-white border border-indigo-100 rounded-lg p-4 flex items-center gap-4 shadow-sm">
+              <div className="animate-spin rounded-full h-6 w-6 border-2 border-indigo-600 border-t-transparent shrink-0"></div>
+              <div className="flex-1">
+                <p className="text-sm font-medium text-indigo-900">{processingState.message}</p>
+                {processingState.progress !== undefined && (
+                  <div className="h-1.5 bg-indigo-50 rounded-full overflow-hidden mt-2">
+                    <div className="h-full bg-indigo-500 rounded-full transition-all duration-300" style={{ width: `${processingState.progress}%` }} />
+                  </div>
+                )}
+              </div>
+              <button onClick={() => transcriptionAbort.current?.abort()} className="px-3 py-1.5 rounded-lg text-sm text-gray-500 hover:bg-gray-100 hover:text-red-600 shrink-0">
+                {language === 'es' ? 'Cancelar' : 'Utzi'}
+              </button>
+            </div>
+          </div>
+        )}
         <Editor 
-          segments={segments} searchTerm={searchTerm}
+          segments={segments} speakers={speakers} matches={matches} currentMatch={currentMatch} focusRequest={focusRequest}
+          readOnly={processingState.status === 'transcribing'}
           onSegmentChange={updateSegment} onSpeakerChange={updateSpeaker}
-          onSegmentClick={(t) => { const [m,s] = t.split(':').map(Number); setSeekRequest(m*60+s); }}
+          onSeek={setSeekRequest}
           onDeleteSegment={deleteSegment} onMergeSegment={mergeSegment} onSplitSegment={splitSegment}
           onCorrectSegment={async (id) => {
              const s = segments.find(seg => seg.id === id);
@@ -145,14 +753,54 @@ const App: React.FC = () => {
              setCorrectingSegmentId(null);
           }}
           currentAudioTime={currentTime} language={language} correctingSegmentId={correctingSegmentId}
-          onSegmentBlur={() => {}}
+          onSegmentBlur={endHistoryBurst}
+          suggestions={suggestions} onAcceptSuggestion={acceptSuggestion} onRejectSuggestion={rejectSuggestion}
+          translation={showTranslation && translation ? { language: translation.language, texts: translationTrack } : null}
+          onTranslationChange={updateTranslationText} onRetranslate={(id) => handleTranslate([id])}
+        />
+        <AIAssistant
+          isOpen={isAiAssistantOpen} onClose={() => setIsAiAssistantOpen(false)} segments={segments} language={language}
+          messages={chatMessages} setMessages={setChatMessages}
+          onOpenQuotes={() => { setIsAiAssistantOpen(false); setIsQuotesOpen(true); }}
+          onCite={(segment) => { setFocusRequest({ segmentId: segment.id }); setSeekRequest(segment.startMs / 1000); }}
+        />
+        <QuotesPanel
+          key={sessionId}
+          isOpen={isQuotesOpen} onClose={() => setIsQuotesOpen(false)}
+          rawSegments={getModeSegments(EditMode.RAW)} quotes={quotes}
+          onAddQuote={addQuote} onRemoveQuote={removeQuote} onSeek={setSeekRequest}
+          onExport={() => downloadFile(toQuoteSheet(quotes, fileName), `${fileName.split('.')[0]}_citas.txt`)}
+          language={language}
         />
-        <AIAssistant isOpen={isAiAssistantOpen} onClose={() => setIsAiAssistantOpen(false)} segments={segments} language={language} />
       </main>
 
-      <AudioPlayer file={file} currentTime={currentTime} onTimeUpdate={setCurrentTime} onLoadedMetadata={() => {}} seekRequest={seekRequest} />
+      {!file && processingState.status === 'completed' && (
+        <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 p-3 z-50 flex items-center justify-center gap-3 text-sm text-gray-500">
+          {language === 'es' ? 'Esta sesión no tiene audio.' : 'Saio honek ez du audiorik.'}
+          <label className="px-3 py-1.5 bg-indigo-50 text-indigo-600 border border-indigo-200 rounded-lg font-medium cursor-pointer hover:bg-indigo-100">
+            {language === 'es' ? 'Adjuntar audio o vídeo' : 'Erantsi audioa edo bideoa'}
+            <input type="file" accept="audio/*,video/*" onChange={handleAttachMedia} className="hidden" />
+          </label>
+        </div>
+      )}
+
+      <AudioPlayer file={file} currentTime={currentTime} onTimeUpdate={setCurrentTime} onLoadedMetadata={setMediaDuration} seekRequest={seekRequest}
+        settings={playbackSettings} controlsSuspended={isControlsOpen}
+        onInsertTimestamp={handleInsertTimestamp} onOpenControls={() => setIsControlsOpen(true)}
+        caption={caption} onGrabFrame={handleGrabFrame}
+      >
+        {showWaveform && file && (
+          <WaveformTimeline
+            file={file} segments={segments} speakers={speakers} currentTime={currentTime}
+            onSeek={setSeekRequest}
+            onSelectSegment={(id) => { const segment = segments.find(s => s.id === id); setFocusRequest({ segmentId: id }); if (segment) setSeekRequest(segment.startMs / 1000); }}
+            onRetimeSegment={retimeSegment}
+            language={language}
+          />
+        )}
+      </AudioPlayer>
       
-      {isReviewing && (
+      {processingState.status === 'refining' && (
         <div className="fixed inset-0 bg-white/60 backdrop-blur-sm z-[60] flex items-center justify-center flex-col gap-4">
           <div className="animate-spin rounded-full h-12 w-12 border-4 border-indigo-600 border-t-transparent"></div>
           <p className="font-serif font-bold text-indigo-900">{processingState.message}</p>
@@ -1,17 +1,39 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { SendIcon, MagicIcon, XMarkIcon, SparklesIcon } from './Icons';
 import { ChatMessage, TranscriptSegment, Language } from '../types';
-import { queryTranscript } from '../services/geminiService';
+import { chatWithTranscript } from '../services/transcriptionService';
+import { parseTimestampMs, formatTimestamp } from '../services/timecode';
 
 interface AIAssistantProps {
   isOpen: boolean;
   onClose: () => void;
   segments: TranscriptSegment[];
   language: Language;
+  messages: ChatMessage[];
+  setMessages: (update: (messages: ChatMessage[]) => ChatMessage[]) => void;
+  onCite: (segment: TranscriptSegment) => void;
+  onOpenQuotes: () => void; // Quotes go through the verified quotes panel, never free text
 }
 
-export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segments, language }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+type AnswerPart = { text: string } | { segment: TranscriptSegment };
+
+// Timestamps are shown to the second, so a citation points at the last segment starting
+// at or before the cited second.
+const splitCitations = (content: string, segments: TranscriptSegment[]): AnswerPart[] => {
+  const parts: AnswerPart[] = [];
+  let last = 0;
+  for (const match of content.matchAll(/\[(\d{1,2}:\d{2}(?::\d{2})?(?:\.\d+)?)\]/g)) {
+    const citedMs = parseTimestampMs(match[1]);
+    const segment = [...segments].reverse().find(s => s.startMs <= citedMs + 999);
+    if (!segment) continue;
+    parts.push({ text: content.slice(last, match.index) }, { segment });
+    last = match.index! + match[0].length;
+  }
+  parts.push({ text: content.slice(last) });
+  return parts;
+};
+
+export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segments, language, messages, setMessages, onCite, onOpenQuotes }) => {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -30,27 +52,26 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segme
       role: 'user',
       content: text
     };
+    const replyId = (Date.now() + 1).toString();
+    // Failed or empty replies are not part of the conversation the model sees; providers reject empty turns.
+    const turns = [...messages.filter(m => !m.isError && m.content.trim()), userMsg].map(({ role, content }) => ({ role, content }));
+    const updateReply = (changes: Partial<ChatMessage>) => setMessages(prev => prev.map(m => m.id === replyId ? { ...m, ...changes } : m));
 
-    setMessages(prev => [...prev, userMsg]);
+    setMessages(prev => [...prev, userMsg, { id: replyId, role: 'assistant', content: '' }]);
     setInput('');
     setIsLoading(true);
 
     try {
-      const responseText = await queryTranscript(segments, text, language);
-      const aiMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: responseText
-      };
-      setMessages(prev => [...prev, aiMsg]);
+      const reply = await chatWithTranscript(segments, turns, language, content => updateReply({ content }));
+      if (!reply.trim()) {
+        updateReply({ content: language === 'es' ? 'El proveedor de IA no devolvió respuesta.' : 'IA hornitzaileak ez du erantzunik eman.', isError: true });
+      }
     } catch (error) {
-      const errorMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: language === 'es' ? 'Error al conectar con Gemini.' : 'Errorea Gemini-rekin konektatzean.',
+      console.error("Copilot error:", error);
+      updateReply({
+        content: language === 'es' ? 'Error al conectar con el proveedor de IA.' : 'Errorea IA hornitzailearekin konektatzean.',
         isError: true
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      });
     } finally {
       setIsLoading(false);
     }
@@ -59,12 +80,10 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segme
   const quickActions = language === 'es' ? [
     "Resumir los puntos clave",
     "Sugerir 3 titulares",
-    "Extraer las mejores citas",
     "¿Cuál es el tono general?"
   ] : [
     "Laburtu puntu nagusiak",
     "Iradoki 3 titular",
-    "Atera aipu onenak",
     "Zein da tonu orokorra?"
   ];
 
@@ -98,7 +117,7 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segme
           </div>
         )}
         
-        {messages.map(msg => (
+        {messages.filter(msg => msg.content).map(msg => (
           <div key={msg.id} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div className={`max-w-[85%] p-3 rounded-lg text-sm leading-relaxed whitespace-pre-wrap ${
               msg.role === 'user' 
@@ -107,11 +126,19 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segme
                   ? 'bg-red-50 text-red-600 border border-red-100 rounded-bl-none'
                   : 'bg-white text-gray-800 shadow-sm border border-gray-100 rounded-bl-none'
             }`}>
-              {msg.content}
+              {msg.role === 'assistant' && !msg.isError
+                ? splitCitations(msg.content, segments).map((part, i) => 'segment' in part ? (
+                    <button
+                      key={i} onClick={() => onCite(part.segment)}
+                      title={part.segment.text}
+                      className="inline-flex items-center mx-0.5 px-1.5 py-0.5 rounded-full bg-indigo-50 text-indigo-600 font-mono text-xs hover:bg-indigo-100 align-baseline"
+                    >{formatTimestamp(part.segment.startMs)}</button>
+                  ) : <React.Fragment key={i}>{part.text}</React.Fragment>)
+                : msg.content}
             </div>
           </div>
         ))}
-        {isLoading && (
+        {isLoading && !messages[messages.length - 1]?.content && (
           <div className="flex justify-start">
             <div className="bg-white p-3 rounded-lg shadow-sm border border-gray-100 rounded-bl-none flex gap-1">
               <div className="w-2 h-2 bg-indigo-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
@@ -135,6 +162,12 @@ export const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, segme
               {action}
             </button>
           ))}
+          <button
+            onClick={onOpenQuotes}
+            className="text-xs bg-white border border-indigo-100 text-indigo-600 px-3 py-1.5 rounded-full hover:bg-indigo-50 hover:border-indigo-200 transition-colors"
+          >
+            {language === 'es' ? 'Extraer citas verificadas' : 'Atera aipu egiaztatuak'}
+          </button>
         </div>
       )}
 
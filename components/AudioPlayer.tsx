@@ -1,5 +1,8 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { PlayIcon, PauseIcon, Rewind15Icon, Forward15Icon } from './Icons';
+import { PlayIcon, PauseIcon, Rewind15Icon, Forward15Icon, KeyboardIcon } from './Icons';
+import { VideoPane } from './VideoPane';
+import { PlaybackAction, PlaybackSettings } from '../types';
+import { findHotkeyAction, watchGamepadButtons, playbackActions } from '../services/playbackControls';
 
 interface AudioPlayerProps {
   file: File | null;
@@ -7,6 +10,13 @@ interface AudioPlayerProps {
   onTimeUpdate: (time: number) => void;
   onLoadedMetadata: (duration: number) => void;
   seekRequest: number | null; // Timestamp to jump to
+  settings: PlaybackSettings;
+  controlsSuspended: boolean; // While hotkeys or pedals are being assigned
+  onInsertTimestamp: (seconds: number) => void;
+  onOpenControls: () => void;
+  caption: string | null; // Overlaid on video uploads
+  onGrabFrame: (frame: Blob, seconds: number) => void;
+  children?: React.ReactNode; // Shown above the controls, e.g. the waveform timeline
 }
 
 export const AudioPlayer: React.FC<AudioPlayerProps> = ({ 
@@ -14,15 +24,23 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   currentTime, 
   onTimeUpdate, 
   onLoadedMetadata,
-  seekRequest
+  seekRequest,
+  settings,
+  controlsSuspended,
+  onInsertTimestamp,
+  onOpenControls,
+  caption,
+  onGrabFrame,
+  children
 }) => {
-  const audioRef = useRef<HTMLAudioElement>(null);
+  // Video uploads play through a <video> in their own pane; everything else through <audio>.
+  const mediaRef = useRef<HTMLMediaElement | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [playbackRate, setPlaybackRate] = useState(1);
 
-  const playbackRates = [1, 1.5, 2, 2.5, 3];
+  const playbackRates = [0.5, 0.75, 1, 1.5, 2, 2.5, 3];
 
   useEffect(() => {
     if (file) {
@@ -33,10 +51,10 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
   }, [file]);
 
   useEffect(() => {
-    if (seekRequest !== null && audioRef.current) {
-      audioRef.current.currentTime = seekRequest;
+    if (seekRequest !== null && mediaRef.current) {
+      mediaRef.current.currentTime = seekRequest;
       if (!isPlaying) {
-          audioRef.current.play();
+          mediaRef.current.play();
           setIsPlaying(true);
       }
     }
@@ -45,43 +63,85 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
 
   // Sync playback rate when it changes
   useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.playbackRate = playbackRate;
+    if (mediaRef.current) {
+      mediaRef.current.playbackRate = playbackRate;
     }
   }, [playbackRate]);
 
   const togglePlay = () => {
-    if (!audioRef.current) return;
+    if (!mediaRef.current) return;
     if (isPlaying) {
-      audioRef.current.pause();
+      mediaRef.current.pause();
     } else {
-      audioRef.current.play();
+      // Replays the last words heard before the pause, so typing can catch up.
+      if (settings.autoRewindSeconds > 0) mediaRef.current.currentTime = Math.max(0, mediaRef.current.currentTime - settings.autoRewindSeconds);
+      mediaRef.current.play();
     }
     setIsPlaying(!isPlaying);
   };
 
   const handleTimeUpdate = () => {
-    if (audioRef.current) {
-      onTimeUpdate(audioRef.current.currentTime);
+    if (mediaRef.current) {
+      onTimeUpdate(mediaRef.current.currentTime);
     }
   };
 
   const handleLoadedMetadata = () => {
-    if (audioRef.current) {
-      setDuration(audioRef.current.duration);
-      onLoadedMetadata(audioRef.current.duration);
+    if (mediaRef.current) {
+      setDuration(mediaRef.current.duration);
+      onLoadedMetadata(mediaRef.current.duration);
     }
   };
 
   const skip = (seconds: number) => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = Math.min(Math.max(audioRef.current.currentTime + seconds, 0), duration);
+    if (mediaRef.current) {
+      mediaRef.current.currentTime = Math.min(Math.max(mediaRef.current.currentTime + seconds, 0), duration);
     }
   };
 
-  const togglePlaybackRate = () => {
-    const nextIndex = (playbackRates.indexOf(playbackRate) + 1) % playbackRates.length;
-    setPlaybackRate(playbackRates[nextIndex]);
+  const runAction = (action: PlaybackAction) => {
+    switch (action) {
+      case 'playPause': togglePlay(); break;
+      case 'rewind': skip(-settings.skipSeconds); break;
+      case 'forward': skip(settings.skipSeconds); break;
+      case 'insertTimestamp': onInsertTimestamp(mediaRef.current?.currentTime ?? currentTime); break;
+    }
+  };
+
+  // Global listeners are bound once and read the latest handlers through this ref.
+  const latest = useRef({ runAction, settings, isActive: false });
+  latest.current = { runAction, settings, isActive: !!audioUrl && !controlsSuspended };
+
+  useEffect(() => {
+    // Hotkeys work while typing in a segment; that is the point of them.
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!latest.current.isActive) return;
+      const action = findHotkeyAction(e, latest.current.settings);
+      if (!action) return;
+      e.preventDefault();
+      if (!e.repeat) latest.current.runAction(action);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    const stopWatching = watchGamepadButtons(button => {
+      if (!latest.current.isActive) return;
+      const action = playbackActions.find(a => latest.current.settings.pedalButtons[a] === button);
+      if (action) latest.current.runAction(action);
+    });
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      stopWatching();
+    };
+  }, []);
+
+  const grabFrame = () => {
+    const video = mediaRef.current;
+    if (!(video instanceof HTMLVideoElement) || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    const seconds = video.currentTime;
+    canvas.toBlob(blob => { if (blob) onGrabFrame(blob, seconds); }, 'image/png');
   };
 
   const formatTime = (time: number) => {
@@ -94,37 +154,47 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
 
   return (
     <div className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)] p-4 z-50">
-      <audio
-        ref={audioRef}
-        src={audioUrl}
-        onTimeUpdate={handleTimeUpdate}
-        onLoadedMetadata={handleLoadedMetadata}
-        onEnded={() => setIsPlaying(false)}
-      />
+      {file.type.startsWith('video/') ? (
+        <VideoPane
+          videoRef={el => { mediaRef.current = el; }} src={audioUrl}
+          mediaEvents={{ onTimeUpdate: handleTimeUpdate, onLoadedMetadata: handleLoadedMetadata, onEnded: () => setIsPlaying(false) }}
+          caption={caption} onGrabFrame={grabFrame}
+        />
+      ) : (
+        <audio
+          ref={el => { mediaRef.current = el; }}
+          src={audioUrl}
+          onTimeUpdate={handleTimeUpdate}
+          onLoadedMetadata={handleLoadedMetadata}
+          onEnded={() => setIsPlaying(false)}
+        />
+      )}
+      {children}
       
       <div className="max-w-4xl mx-auto flex items-center gap-4">
         
         {/* Controls Group */}
         <div className="flex items-center gap-2">
           <button 
-            onClick={() => skip(-15)}
+            onClick={() => skip(-settings.skipSeconds)}
             className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
-            title="Retroceder 15s"
+            title={`Retroceder ${settings.skipSeconds}s (${settings.hotkeys.rewind})`}
           >
             <Rewind15Icon />
           </button>
 
           <button 
             onClick={togglePlay}
+            title={`Reproducir / pausar (${settings.hotkeys.playPause})`}
             className="p-3 rounded-full bg-indigo-600 text-white hover:bg-indigo-700 transition-colors shadow-md"
           >
             {isPlaying ? <PauseIcon /> : <PlayIcon />}
           </button>
 
           <button 
-            onClick={() => skip(15)}
+            onClick={() => skip(settings.skipSeconds)}
             className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
-            title="Adelantar 15s"
+            title={`Adelantar ${settings.skipSeconds}s (${settings.hotkeys.forward})`}
           >
             <Forward15Icon />
           </button>
@@ -141,9 +211,9 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
              const rect = e.currentTarget.getBoundingClientRect();
              const x = e.clientX - rect.left;
              const percentage = x / rect.width;
-             if (audioRef.current) {
+             if (mediaRef.current) {
                const newTime = percentage * duration;
-               audioRef.current.currentTime = newTime;
+               mediaRef.current.currentTime = newTime;
                onTimeUpdate(newTime);
              }
            }}
@@ -163,13 +233,22 @@ export const AudioPlayer: React.FC<AudioPlayerProps> = ({
           {formatTime(duration)}
         </div>
 
-        {/* Speed Toggle */}
-        <button 
-          onClick={togglePlaybackRate}
-          className="w-12 px-2 py-1 text-xs font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded border border-indigo-200 transition-colors"
+        {/* Speed */}
+        <select
+          value={playbackRate}
+          onChange={(e) => setPlaybackRate(Number(e.target.value))}
+          className="w-16 px-1 py-1 text-xs font-bold text-indigo-600 bg-indigo-50 hover:bg-indigo-100 rounded border border-indigo-200 transition-colors outline-none cursor-pointer"
           title="Velocidad de reproducción"
         >
-          {playbackRate}x
+          {playbackRates.map(rate => <option key={rate} value={rate}>{rate}x</option>)}
+        </select>
+
+        <button
+          onClick={onOpenControls}
+          className="p-2 text-gray-400 hover:text-indigo-600 transition-colors"
+          title="Atajos de teclado y pedal"
+        >
+          <KeyboardIcon />
         </button>
       </div>
     </div>
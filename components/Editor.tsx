@@ -1,125 +1,228 @@
 
-import React, { useEffect, useState, useMemo } from 'react';
-import { TranscriptSegment, Language } from '../types';
-import { TrashIcon, MergeUpIcon, SpellcheckIcon, SearchIcon, XMarkIcon } from './Icons';
+import React, { useEffect, useState } from 'react';
+import { TranscriptSegment, Language, ReviewSuggestion, SpeakerProfile, TranslatedText } from '../types';
+import { TrashIcon, MergeUpIcon, SpellcheckIcon, XMarkIcon, CheckIcon } from './Icons';
+import { diffWords } from '../services/textDiff';
+import { hasValidWords } from '../services/wordAlignment';
+import { formatTimestamp, findSegmentIndexAt } from '../services/timecode';
+import { getSpeakerColor } from '../services/speakers';
+import { FindMatch } from '../services/findReplace';
+import { TextRange, findUncertainRanges, isLowConfidence } from '../services/confidence';
 
 interface EditorProps {
   segments: TranscriptSegment[];
+  speakers: Record<string, SpeakerProfile>;
   onSegmentChange: (id: string, newText: string) => void;
   onSpeakerChange: (id: string, newSpeaker: string) => void;
-  onSegmentClick: (startTimeString: string) => void;
+  onSeek: (seconds: number) => void;
   onSegmentBlur: () => void;
   onDeleteSegment: (id: string) => void;
   onMergeSegment: (id: string) => void;
   onSplitSegment: (id: string, cursorPosition: number) => void;
   onCorrectSegment: (id: string) => void;
   currentAudioTime: number;
+  focusRequest: { segmentId: string } | null; // Scrolls a segment into view, e.g. from a copilot citation
   language: Language;
   correctingSegmentId: string | null;
-  searchTerm: string;
+  readOnly: boolean; // While a transcription streams in, since each partial replaces every segment
+  matches: FindMatch[]; // Find results are highlighted in place; every segment stays visible
+  currentMatch: FindMatch | null;
+  suggestions: ReviewSuggestion[];
+  onAcceptSuggestion: (id: string) => void;
+  onRejectSuggestion: (id: string) => void;
+  translation: { language: Language; texts: Record<string, TranslatedText> } | null; // Track of the mode on screen, shown side by side when set
+  onTranslationChange: (id: string, text: string) => void;
+  onRetranslate: (id: string) => void;
 }
 
-const parseTimeString = (timeStr: string): number => {
-  const parts = timeStr.split(':').map(Number);
-  return parts.length === 2 ? parts[0] * 60 + parts[1] : 0;
-};
-
-const getSpeakerColor = (name: string) => {
-  const colors = ['text-indigo-600', 'text-emerald-600', 'text-amber-600', 'text-rose-600', 'text-cyan-600', 'text-fuchsia-600', 'text-blue-600', 'text-violet-600'];
-  let hash = 0;
-  for (let i = 0; i < name.length; i++) hash = name.charCodeAt(i) + ((hash << 5) - hash);
-  return colors[Math.abs(hash) % colors.length];
-};
+const uncertainClass = 'underline decoration-wavy decoration-amber-400 underline-offset-4';
 
 export const Editor: React.FC<EditorProps> = ({ 
-  segments, onSegmentChange, onSpeakerChange, onSegmentClick, onSegmentBlur, onDeleteSegment, onMergeSegment, onSplitSegment, onCorrectSegment, currentAudioTime, language, correctingSegmentId, searchTerm
+  segments, speakers, onSegmentChange, onSpeakerChange, onSeek, onSegmentBlur, onDeleteSegment, onMergeSegment, onSplitSegment, onCorrectSegment, currentAudioTime, focusRequest, language, correctingSegmentId, readOnly, matches, currentMatch, suggestions, onAcceptSuggestion, onRejectSuggestion, translation, onTranslationChange, onRetranslate
 }) => {
   const [activeSegmentIndex, setActiveSegmentIndex] = useState<number>(-1);
-
-  const filteredSegments = useMemo(() => {
-    if (!searchTerm.trim()) return segments;
-    const lowerSearch = searchTerm.toLowerCase();
-    return segments.filter(s => 
-      s.text.toLowerCase().includes(lowerSearch) || 
-      s.speaker.toLowerCase().includes(lowerSearch)
-    );
-  }, [segments, searchTerm]);
+  // Segments with word timings, find matches or uncertain passages render as text; double-click switches one to the textarea.
+  const [editingSegmentId, setEditingSegmentId] = useState<string | null>(null);
+  const currentMs = currentAudioTime * 1000;
 
   useEffect(() => {
-    const index = segments.findIndex((segment, i) => {
-      const start = parseTimeString(segment.startTime);
-      const nextSegment = segments[i + 1];
-      const end = nextSegment ? parseTimeString(nextSegment.startTime) : start + 30;
-      return currentAudioTime >= start && currentAudioTime < end;
-    });
+    const index = findSegmentIndexAt(segments, currentMs);
     if (index !== -1 && index !== activeSegmentIndex) setActiveSegmentIndex(index);
-  }, [currentAudioTime, segments, activeSegmentIndex]);
+  }, [currentMs, segments, activeSegmentIndex]);
 
   useEffect(() => {
-    if (activeSegmentIndex !== -1 && !searchTerm) {
+    if (activeSegmentIndex !== -1 && matches.length === 0) {
       const el = document.getElementById(`segment-${activeSegmentIndex}`);
       el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
     }
-  }, [activeSegmentIndex, searchTerm]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeSegmentIndex]);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    const index = segments.findIndex(s => s.id === focusRequest.segmentId);
+    document.getElementById(`segment-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusRequest]);
 
-  const highlightText = (text: string) => {
-    if (!searchTerm.trim()) return text;
-    const parts = text.split(new RegExp(`(${searchTerm})`, 'gi'));
-    return parts.map((part, i) => 
-      part.toLowerCase() === searchTerm.toLowerCase() 
-        ? <mark key={i} className="bg-yellow-200 text-ink rounded-sm px-0.5">{part}</mark> 
-        : part
-    );
+  // Follows the current find match without hiding the segments around it.
+  useEffect(() => {
+    if (!currentMatch) return;
+    const index = segments.findIndex(s => s.id === currentMatch.segmentId);
+    document.getElementById(`segment-${index}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentMatch?.segmentId]);
+
+  // Find matches are marked and uncertain passages underlined; the two can overlap, so the text
+  // is cut at every boundary of either.
+  const decorateText = (text: string, segmentMatches: FindMatch[], uncertain: TextRange[]) => {
+    const cuts = Array.from(new Set([0, text.length, ...segmentMatches.flatMap(m => [m.start, m.end]), ...uncertain.flatMap(r => [r.start, r.end])])).sort((a, b) => a - b);
+    return cuts.slice(0, -1).map((start, i) => {
+      const end = cuts[i + 1];
+      const piece = text.slice(start, end);
+      const match = segmentMatches.find(m => m.start <= start && end <= m.end);
+      const isUncertainPiece = uncertain.some(r => r.start <= start && end <= r.end);
+      const content = isUncertainPiece ? <span className={uncertainClass}>{piece}</span> : piece;
+      if (!match) return <React.Fragment key={start}>{content}</React.Fragment>;
+      const isCurrent = match === currentMatch;
+      return <mark key={start} className={`text-ink rounded-sm ${isCurrent ? 'bg-orange-300 ring-2 ring-orange-300' : 'bg-yellow-200'}`}>{content}</mark>;
+    });
   };
 
+  // Offsets of each word in the text. Timed words are shown as the text spells them, punctuation
+  // included, and underlined when they fall in an uncertain range.
+  const wordRanges = (text: string): TextRange[] => Array.from(text.matchAll(/\S+/g), m => ({ start: m.index!, end: m.index! + m[0].length }));
+
   return (
-    <div className="max-w-3xl mx-auto pb-40 pt-8 px-4 sm:px-6">
+    <div className={`${translation ? 'max-w-6xl' : 'max-w-3xl'} mx-auto pb-40 pt-8 px-4 sm:px-6`}>
       <datalist id="known-speakers">
         {Array.from(new Set(segments.map(s => s.speaker))).map(s => <option key={s} value={s} />)}
       </datalist>
 
-      {filteredSegments.length === 0 && searchTerm && (
-        <div className="text-center py-20 text-gray-400">
-          <p>{language === 'es' ? 'No se encontraron resultados para su búsqueda.' : 'Ez da emaitzarik aurkitu zure bilaketarako.'}</p>
-        </div>
-      )}
-
       <div className="space-y-6">
-        {filteredSegments.map((segment) => {
-          const originalIndex = segments.findIndex(s => s.id === segment.id);
-          const isActive = originalIndex === activeSegmentIndex;
-          const speakerColor = getSpeakerColor(segment.speaker);
+        {segments.map((segment, index) => {
+          const isActive = index === activeSegmentIndex;
+          const speakerColor = getSpeakerColor(segment.speaker, speakers).text;
           const isCorrecting = correctingSegmentId === segment.id;
+          const suggestion = suggestions.find(s => s.segmentId === segment.id);
+          const segmentMatches = matches.filter(m => m.segmentId === segment.id);
+          const isEditing = editingSegmentId === segment.id;
+          const uncertain = findUncertainRanges(segment);
+          const textWords = wordRanges(segment.text);
+          const translatedText = translation?.texts[segment.id];
 
           return (
-            <div key={segment.id} id={`segment-${originalIndex}`} className={`group relative p-4 rounded-lg transition-all duration-300 border-l-4 ${isActive ? 'bg-indigo-50 border-indigo-500 shadow-sm' : 'bg-white border-transparent hover:bg-gray-50'}`}>
+            <div key={segment.id} id={`segment-${index}`} className={`group relative p-4 rounded-lg transition-all duration-300 border-l-4 ${isActive ? 'bg-indigo-50 border-indigo-500 shadow-sm' : 'bg-white border-transparent hover:bg-gray-50'}`}>
               <div className="flex items-center justify-between mb-2 gap-4">
                 <input
-                  type="text" list="known-speakers" value={segment.speaker}
+                  type="text" list="known-speakers" value={segment.speaker} data-segment-id={segment.id} readOnly={readOnly}
                   onChange={(e) => onSpeakerChange(segment.id, e.target.value)}
+                  onBlur={onSegmentBlur}
                   className={`text-xs font-bold tracking-wider uppercase bg-transparent border-none p-0 focus:ring-0 cursor-pointer w-full ${speakerColor}`}
                 />
                 <div className="flex items-center gap-2">
-                  <div className={`flex items-center gap-1 transition-opacity ${isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
+                  <div className={`flex items-center gap-1 transition-opacity ${readOnly ? 'hidden' : isActive ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}>
                     <button onClick={() => onCorrectSegment(segment.id)} disabled={isCorrecting} className="p-1 rounded text-gray-400 hover:text-indigo-600"><SpellcheckIcon /></button>
                     <button onClick={() => onMergeSegment(segment.id)} className="p-1 text-gray-400 hover:text-indigo-600"><MergeUpIcon /></button>
                     <button onClick={() => onDeleteSegment(segment.id)} className="p-1 text-gray-400 hover:text-red-600"><TrashIcon /></button>
                   </div>
-                  <button onClick={() => onSegmentClick(segment.startTime)} className="text-xs font-mono text-gray-400 bg-gray-100 px-2 py-1 rounded">{segment.startTime}</button>
+                  {isLowConfidence(segment) && (
+                    <span title={language === 'es' ? 'Confianza de la transcripción' : 'Transkripzioaren konfiantza'} className="text-xs font-mono text-amber-600 bg-amber-50 px-1.5 py-1 rounded">{Math.round(segment.confidence! * 100)}%</span>
+                  )}
+                  <button onClick={() => onSeek(segment.startMs / 1000)} className="text-xs font-mono text-gray-400 bg-gray-100 px-2 py-1 rounded">{formatTimestamp(segment.startMs)}</button>
                 </div>
               </div>
-              <textarea
-                className={`w-full resize-none bg-transparent border-none focus:ring-0 p-0 font-serif text-lg leading-relaxed outline-none transition-colors ${isActive ? 'text-gray-900' : 'text-gray-700'}`}
-                rows={Math.ceil(segment.text.length / 60) || 1}
-                value={segment.text}
-                onChange={(e) => onSegmentChange(segment.id, e.target.value)}
-                onKeyDown={(e) => {
-                  if (e.key === 'Backspace' && e.currentTarget.selectionStart === 0) onMergeSegment(segment.id);
-                  if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); onSplitSegment(segment.id, e.currentTarget.selectionStart); }
-                }}
-                onFocus={() => onSegmentClick(segment.startTime)}
-                readOnly={isCorrecting}
-              />
+              <div className={translation ? 'grid grid-cols-2 gap-6' : ''}>
+                <div>
+                  {segmentMatches.length > 0 && !isEditing ? (
+                    <p
+                      className={`font-serif text-lg leading-relaxed cursor-text whitespace-pre-wrap ${isActive ? 'text-gray-900' : 'text-gray-700'}`}
+                      onDoubleClick={() => setEditingSegmentId(segment.id)}
+                      title={language === 'es' ? 'Doble clic para editar' : 'Klik bikoitza editatzeko'}
+                    >{decorateText(segment.text, segmentMatches, uncertain)}</p>
+                  ) : hasValidWords(segment) && !isEditing ? (
+                    <p
+                      className={`font-serif text-lg leading-relaxed cursor-text ${isActive ? 'text-gray-900' : 'text-gray-700'}`}
+                      onDoubleClick={() => setEditingSegmentId(segment.id)}
+                      title={language === 'es' ? 'Doble clic para editar' : 'Klik bikoitza editatzeko'}
+                    >
+                      {segment.words.map((word, i) => {
+                        const isCurrent = isActive && currentMs >= word.startMs && currentMs < word.endMs;
+                        const range = textWords[i];
+                        const isUncertainWord = range !== undefined && uncertain.some(r => r.start < range.end && range.start < r.end);
+                        return (
+                          <React.Fragment key={i}>
+                            <span
+                              onClick={() => onSeek(word.startMs / 1000)}
+                              className={`rounded-sm transition-colors cursor-pointer ${isCurrent ? 'bg-indigo-200 text-indigo-900' : 'hover:bg-gray-100'} ${isUncertainWord ? uncertainClass : ''}`}
+                            >{range ? segment.text.slice(range.start, range.end) : word.text}</span>{' '}
+                          </React.Fragment>
+                        );
+                      })}
+                    </p>
+                  ) : uncertain.length > 0 && !isEditing ? (
+                    <p
+                      className={`font-serif text-lg leading-relaxed cursor-text whitespace-pre-wrap ${isActive ? 'text-gray-900' : 'text-gray-700'}`}
+                      onDoubleClick={() => setEditingSegmentId(segment.id)}
+                      title={language === 'es' ? 'Doble clic para editar' : 'Klik bikoitza editatzeko'}
+                    >{decorateText(segment.text, [], uncertain)}</p>
+                  ) : (
+                  <textarea
+                    data-segment-id={segment.id}
+                    autoFocus={isEditing}
+                    className={`w-full resize-none bg-transparent border-none focus:ring-0 p-0 font-serif text-lg leading-relaxed outline-none transition-colors ${isActive ? 'text-gray-900' : 'text-gray-700'}`}
+                    rows={Math.ceil(segment.text.length / 60) || 1}
+                    value={segment.text}
+                    onChange={(e) => onSegmentChange(segment.id, e.target.value)}
+                    onKeyDown={(e) => {
+                      if (readOnly) return;
+                      if (e.key === 'Backspace' && e.currentTarget.selectionStart === 0) onMergeSegment(segment.id);
+                      if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); onSplitSegment(segment.id, e.currentTarget.selectionStart); }
+                    }}
+                    onFocus={() => { if (!isEditing) onSeek(segment.startMs / 1000); }}
+                    onBlur={() => { setEditingSegmentId(null); onSegmentBlur(); }}
+                    readOnly={isCorrecting || readOnly}
+                  />
+                  )}
+                  {suggestion && (
+                    <div className="mt-3 p-3 rounded-md bg-amber-50 border border-amber-100 animate-[fadeIn_0.2s_ease-out]">
+                      <p className="font-serif text-base leading-relaxed text-gray-800">
+                        {diffWords(segment.text, suggestion.text).map((part, i) => (
+                          part.type === 'equal' ? <span key={i}>{part.text}</span>
+                            : part.type === 'delete' ? <del key={i} className="bg-red-100 text-red-700 decoration-red-400">{part.text}</del>
+                            : <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline">{part.text}</ins>
+                        ))}
+                      </p>
+                      <div className="flex items-center justify-between gap-2 mt-2">
+                        <span className="text-xs text-amber-700">{suggestion.reason}</span>
+                        <div className="flex items-center gap-1 shrink-0">
+                          <button onClick={() => onAcceptSuggestion(suggestion.id)} title={language === 'es' ? 'Aceptar' : 'Onartu'} className="p-1 rounded text-emerald-600 hover:bg-emerald-100"><CheckIcon /></button>
+                          <button onClick={() => onRejectSuggestion(suggestion.id)} title={language === 'es' ? 'Rechazar' : 'Baztertu'} className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 [&>svg]:w-4 [&>svg]:h-4"><XMarkIcon /></button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+                {translation && (
+                  <div>
+                    <textarea
+                      className="w-full resize-none bg-transparent border-none focus:ring-0 p-0 font-serif text-lg leading-relaxed outline-none text-gray-600 italic placeholder:text-gray-300"
+                      rows={Math.ceil((translatedText?.text ?? '').length / 60) || 1}
+                      value={translatedText?.text ?? ''}
+                      placeholder={language === 'es' ? 'Sin traducir' : 'Itzuli gabe'}
+                      lang={translation.language}
+                      onChange={(e) => onTranslationChange(segment.id, e.target.value)}
+                    />
+                    {translatedText?.source !== segment.text && (
+                      <button onClick={() => onRetranslate(segment.id)} className="mt-1 text-xs text-amber-700 hover:underline">
+                        {translatedText
+                          ? (language === 'es' ? 'El original ha cambiado · Volver a traducir' : 'Jatorrizkoa aldatu da · Berriz itzuli')
+                          : (language === 'es' ? 'Traducir' : 'Itzuli')}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
             </div>
           );
         })}
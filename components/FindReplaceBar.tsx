@@ -0,0 +1,62 @@
+import React from 'react';
+import { Language } from '../types';
+import { FindOptions } from '../services/findReplace';
+
+interface FindReplaceBarProps {
+  options: FindOptions;
+  onOptionsChange: (options: FindOptions) => void;
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  speakerNames: string[];
+  matchCount: number;
+  isPatternValid: boolean;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  language: Language;
+}
+
+// Options and replace row shown under the header search, which stays the find field.
+export const FindReplaceBar: React.FC<FindReplaceBarProps> = ({ options, onOptionsChange, replacement, onReplacementChange, speakerNames, matchCount, isPatternValid, onReplace, onReplaceAll, language }) => {
+  const toggle = (key: 'regex' | 'caseSensitive' | 'wholeWord') => onOptionsChange({ ...options, [key]: !options[key] });
+  const toggleSpeaker = (name: string) => onOptionsChange({
+    ...options,
+    speakers: options.speakers.includes(name) ? options.speakers.filter(s => s !== name) : [...options.speakers, name]
+  });
+
+  const toggleClass = (isOn: boolean) => `px-2 py-1 rounded-md text-xs font-mono transition-colors ${isOn ? 'bg-indigo-100 text-indigo-700' : 'text-gray-500 hover:bg-gray-100'}`;
+
+  return (
+    <div className="bg-white border-b border-gray-200 px-6 py-2 flex flex-wrap items-center gap-3 text-sm">
+      <div className="flex items-center gap-1">
+        <button onClick={() => toggle('caseSensitive')} title={language === 'es' ? 'Distinguir mayúsculas' : 'Maiuskulak bereizi'} className={toggleClass(options.caseSensitive)}>Aa</button>
+        <button onClick={() => toggle('wholeWord')} title={language === 'es' ? 'Palabra completa' : 'Hitz osoa'} className={toggleClass(options.wholeWord)}>[ab]</button>
+        <button onClick={() => toggle('regex')} title={language === 'es' ? 'Expresión regular' : 'Adierazpen erregularra'} className={toggleClass(options.regex)}>.*</button>
+      </div>
+
+      <input
+        type="text" value={replacement} onChange={(e) => onReplacementChange(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); onReplace(); } }}
+        placeholder={options.regex ? (language === 'es' ? 'Reemplazar ($1 para grupos)' : 'Ordeztu ($1 taldeetarako)') : (language === 'es' ? 'Reemplazar por...' : 'Honekin ordeztu...')}
+        className="w-56 px-3 py-1.5 bg-gray-50 border border-gray-200 rounded-full text-sm focus:bg-white focus:ring-2 focus:ring-indigo-100 outline-none"
+      />
+      <button onClick={onReplace} disabled={matchCount === 0} className="px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40">
+        {language === 'es' ? 'Reemplazar' : 'Ordeztu'}
+      </button>
+      <button onClick={onReplaceAll} disabled={matchCount === 0} className="px-3 py-1.5 rounded-lg text-gray-600 hover:bg-gray-100 disabled:opacity-40">
+        {language === 'es' ? `Reemplazar todo (${matchCount})` : `Ordeztu guztiak (${matchCount})`}
+      </button>
+      {!isPatternValid && <span className="text-xs text-red-600">{language === 'es' ? 'Expresión no válida' : 'Adierazpen baliogabea'}</span>}
+
+      {speakerNames.length > 1 && (
+        <div className="flex flex-wrap items-center gap-1 ml-auto">
+          <span className="text-xs text-gray-400">{language === 'es' ? 'Solo en:' : 'Hauetan soilik:'}</span>
+          {speakerNames.map(name => (
+            <button key={name} onClick={() => toggleSpeaker(name)} className={`px-2 py-0.5 rounded-full text-xs border transition-colors ${options.speakers.includes(name) ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-200 text-gray-500 hover:border-indigo-300'}`}>
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { GlossaryEntry, GlossaryScope, Language } from '../types';
+import { XMarkIcon, BookIcon, PlusIcon, TrashIcon, DownloadIcon, UploadIcon } from './Icons';
+import { parseGlossaryCsv } from '../services/glossary';
+
+interface GlossaryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  userEntries: GlossaryEntry[];
+  sessionEntries: GlossaryEntry[];
+  onChange: (scope: GlossaryScope, entries: GlossaryEntry[]) => void;
+  onExport: (scope: GlossaryScope) => void;
+  onApply: () => void; // Runs the mis-hearing rules over the current transcript
+  language: Language;
+}
+
+const scopeLabels: Record<GlossaryScope, Record<Language, string>> = {
+  user: { es: 'Mi glosario', eu: 'Nire glosarioa' },
+  session: { es: 'Esta sesión', eu: 'Saio hau' }
+};
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ isOpen, onClose, userEntries, sessionEntries, onChange, onExport, onApply, language }) => {
+  const [scope, setScope] = useState<GlossaryScope>('user');
+  const [importError, setImportError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const entries = scope === 'user' ? userEntries : sessionEntries;
+  const updateEntry = (id: string, changes: Partial<GlossaryEntry>) => onChange(scope, entries.map(e => e.id === id ? { ...e, ...changes } : e));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = parseGlossaryCsv(await file.text());
+    if (imported.length === 0) {
+      setImportError(language === 'es' ? 'El archivo no contiene términos.' : 'Fitxategiak ez du terminorik.');
+      return;
+    }
+    setImportError(null);
+    // Imported rows replace existing entries for the same term.
+    const importedTerms = new Set(imported.map(i => i.term.toLowerCase()));
+    onChange(scope, [...entries.filter(e => !importedTerms.has(e.term.trim().toLowerCase())), ...imported]);
+  };
+
+  const inputClass = "w-full px-2 py-1 bg-gray-50 border border-gray-200 rounded text-xs outline-none focus:bg-white focus:ring-2 focus:ring-indigo-100";
+  const iconButton = "p-1.5 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 [&>svg]:w-4 [&>svg]:h-4";
+
+  return (
+    <div className="fixed inset-0 bg-black/20 z-[70] flex items-center justify-center p-6 animate-[fadeIn_0.2s_ease-out]" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col animate-[scaleIn_0.15s_ease-out]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+          <div className="flex items-center gap-2 text-gray-800">
+            <BookIcon />
+            <h2 className="font-serif font-bold">{language === 'es' ? 'Glosario' : 'Glosarioa'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
+            <XMarkIcon />
+          </button>
+        </div>
+
+        <div className="px-4 pt-3 flex items-center justify-between gap-2">
+          <div className="flex items-center bg-gray-100 rounded-lg p-0.5">
+            {(['user', 'session'] as GlossaryScope[]).map(option => (
+              <button key={option} onClick={() => setScope(option)} className={`px-3 py-1 text-xs font-medium rounded-md transition-all ${scope === option ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}>
+                {scopeLabels[option][language]} ({(option === 'user' ? userEntries : sessionEntries).length})
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-1">
+            <label title={language === 'es' ? 'Importar CSV' : 'Inportatu CSV'} className={`${iconButton} cursor-pointer`}>
+              <UploadIcon />
+              <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+            </label>
+            <button onClick={() => onExport(scope)} disabled={entries.length === 0} title={language === 'es' ? 'Exportar CSV' : 'Esportatu CSV'} className={iconButton}><DownloadIcon /></button>
+          </div>
+        </div>
+        {importError && <p className="px-4 pt-2 text-xs text-red-600">{importError}</p>}
+
+        <div className="p-4 space-y-2 overflow-y-auto text-sm">
+          <div className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 text-xs font-medium text-gray-500">
+            <span>{language === 'es' ? 'Término' : 'Terminoa'}</span>
+            <span>{language === 'es' ? 'Se oye como (separado por comas)' : 'Honela entzuten da (komaz bereizita)'}</span>
+            <span>{language === 'es' ? 'Nota' : 'Oharra'}</span>
+            <span className="w-7" />
+          </div>
+          {entries.length === 0 && (
+            <p className="text-xs text-gray-400 py-2">
+              {scope === 'user'
+                ? (language === 'es' ? 'Nombres, lugares y siglas que usas en todas tus entrevistas.' : 'Elkarrizketa guztietan erabiltzen dituzun izenak, lekuak eta siglak.')
+                : (language === 'es' ? 'Términos solo de esta entrevista. Prevalecen sobre tu glosario.' : 'Elkarrizketa honetako terminoak soilik. Zure glosarioaren gainetik daude.')}
+            </p>
+          )}
+          {entries.map(entry => (
+            <div key={entry.id} className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-center">
+              <input value={entry.term} onChange={(e) => updateEntry(entry.id, { term: e.target.value })} placeholder="Getxo" className={`${inputClass} font-medium`} />
+              <input
+                key={entry.misspellings.join('|')} defaultValue={entry.misspellings.join(', ')}
+                onBlur={(e) => updateEntry(entry.id, { misspellings: e.target.value.split(',').map(m => m.trim()).filter(Boolean) })}
+                placeholder="Getcho, Getxu" className={inputClass}
+              />
+              <input value={entry.note ?? ''} onChange={(e) => updateEntry(entry.id, { note: e.target.value || undefined })} className={inputClass} />
+              <button onClick={() => onChange(scope, entries.filter(e => e.id !== entry.id))} className="p-1 text-gray-400 hover:text-red-600"><TrashIcon /></button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange(scope, [...entries, { id: `term-${Date.now()}`, term: '', misspellings: [] }])}
+            className="flex items-center gap-1 text-xs text-indigo-600 hover:underline [&>svg]:w-4 [&>svg]:h-4"
+          ><PlusIcon /> {language === 'es' ? 'Añadir término' : 'Gehitu terminoa'}</button>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex items-center justify-between gap-4">
+          <p className="text-xs text-gray-400">
+            {language === 'es'
+              ? 'Se aplica al transcribir y al corregir. Las variantes mal oídas se sustituyen automáticamente.'
+              : 'Transkribatzean eta zuzentzean aplikatzen da. Gaizki entzundako aldaerak automatikoki ordezten dira.'}
+          </p>
+          <button onClick={onApply} className="px-3 py-1.5 rounded-lg text-xs bg-indigo-600 text-white font-medium hover:bg-indigo-700 shrink-0">
+            {language === 'es' ? 'Aplicar a la transcripción' : 'Aplikatu transkripzioari'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
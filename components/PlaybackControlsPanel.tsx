@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { PlaybackAction, PlaybackSettings, Language } from '../types';
+import { XMarkIcon, KeyboardIcon } from './Icons';
+import { defaultPlaybackSettings, playbackActions, toHotkey, watchGamepadButtons } from '../services/playbackControls';
+
+interface PlaybackControlsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: PlaybackSettings;
+  onSave: (settings: PlaybackSettings) => void;
+  language: Language;
+}
+
+const actionLabels: Record<PlaybackAction, Record<Language, string>> = {
+  playPause: { es: 'Reproducir / pausar', eu: 'Erreproduzitu / pausatu' },
+  rewind: { es: 'Retroceder', eu: 'Atzera egin' },
+  forward: { es: 'Adelantar', eu: 'Aurrera egin' },
+  insertTimestamp: { es: 'Insertar marca de tiempo', eu: 'Txertatu denbora-marka' }
+};
+
+export const PlaybackControlsPanel: React.FC<PlaybackControlsPanelProps> = ({ isOpen, onClose, settings, onSave, language }) => {
+  const [draft, setDraft] = useState<PlaybackSettings>(settings);
+  const [capturing, setCapturing] = useState<{ kind: 'key' | 'pedal'; action: PlaybackAction } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+    setCapturing(null);
+  }, [isOpen, settings]);
+
+  // A key or button belongs to one action at a time; assigning it elsewhere moves it.
+  const assignHotkey = (action: PlaybackAction, hotkey: string) => setDraft(prev => ({
+    ...prev,
+    hotkeys: Object.fromEntries(playbackActions.map(a => [a, a === action ? hotkey : prev.hotkeys[a] === hotkey ? '' : prev.hotkeys[a]])) as Record<PlaybackAction, string>
+  }));
+
+  const assignPedal = (action: PlaybackAction, button: number) => setDraft(prev => ({
+    ...prev,
+    pedalButtons: Object.fromEntries(playbackActions
+      .map(a => [a, a === action ? button : prev.pedalButtons[a] === button ? undefined : prev.pedalButtons[a]])
+      .filter(([, b]) => b !== undefined))
+  }));
+
+  useEffect(() => {
+    if (capturing?.kind !== 'pedal') return;
+    const { action } = capturing;
+    return watchGamepadButtons(button => {
+      assignPedal(action, button);
+      setCapturing(null);
+    });
+  }, [capturing]);
+
+  if (!isOpen) return null;
+
+  const handleCaptureKey = (e: React.KeyboardEvent, action: PlaybackAction) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const hotkey = toHotkey(e);
+    if (!hotkey) return;
+    assignHotkey(action, hotkey);
+    setCapturing(null);
+  };
+
+  const captureClass = (isActive: boolean) => `w-full px-2 py-1.5 rounded-lg border text-xs font-mono text-left transition-colors ${isActive ? 'border-indigo-400 bg-indigo-50 text-indigo-700 animate-pulse' : 'border-gray-200 bg-gray-50 text-gray-700 hover:border-indigo-200'}`;
+  const inputClass = "w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:bg-white focus:ring-2 focus:ring-indigo-100 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/20 z-[70] flex items-center justify-center p-6 animate-[fadeIn_0.2s_ease-out]" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg animate-[scaleIn_0.15s_ease-out]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+          <div className="flex items-center gap-2 text-gray-800">
+            <KeyboardIcon />
+            <h2 className="font-serif font-bold">{language === 'es' ? 'Atajos y pedal' : 'Lasterbideak eta pedala'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
+            <XMarkIcon />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 text-sm">
+          <div className="grid grid-cols-[1fr_8rem_6rem] gap-2 items-center">
+            <span />
+            <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'Tecla' : 'Tekla'}</span>
+            <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'Pedal' : 'Pedala'}</span>
+            {playbackActions.map(action => {
+              const isCapturingKey = capturing?.kind === 'key' && capturing.action === action;
+              const isCapturingPedal = capturing?.kind === 'pedal' && capturing.action === action;
+              const pedal = draft.pedalButtons[action];
+              return (
+                <React.Fragment key={action}>
+                  <span className="text-gray-700">{actionLabels[action][language]}</span>
+                  {/* Not a <button>: capturing Enter or Space would click it and start capturing again. */}
+                  <div
+                    role="button" tabIndex={0}
+                    onClick={() => setCapturing({ kind: 'key', action })}
+                    onKeyDown={(e) => isCapturingKey && handleCaptureKey(e, action)}
+                    onBlur={() => isCapturingKey && setCapturing(null)}
+                    className={`${captureClass(isCapturingKey)} cursor-pointer outline-none`}
+                  >
+                    {isCapturingKey ? (language === 'es' ? 'Pulsa una tecla…' : 'Sakatu tekla bat…') : draft.hotkeys[action] || '—'}
+                  </div>
+                  <button onClick={() => setCapturing(isCapturingPedal ? null : { kind: 'pedal', action })} className={captureClass(isCapturingPedal)}>
+                    {isCapturingPedal ? (language === 'es' ? 'Pisa…' : 'Zapaldu…') : pedal !== undefined ? `#${pedal + 1}` : '—'}
+                  </button>
+                </React.Fragment>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-400">
+            {language === 'es'
+              ? 'Los pedales que funcionan como teclado se asignan en la columna Tecla; los demás, en la columna Pedal. Los atajos funcionan también mientras escribes.'
+              : 'Teklatu gisa dabiltzan pedalak Tekla zutabean esleitzen dira; besteak, Pedala zutabean. Lasterbideek idazten ari zarenean ere funtzionatzen dute.'}
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'Salto (segundos)' : 'Jauzia (segundoak)'}</span>
+              <input type="number" min={1} max={60} value={draft.skipSeconds} onChange={(e) => setDraft({ ...draft, skipSeconds: Math.max(1, Number(e.target.value) || 1) })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'Retroceso al reanudar (s)' : 'Atzera berrekitean (s)'}</span>
+              <input type="number" min={0} max={10} step={0.5} value={draft.autoRewindSeconds} onChange={(e) => setDraft({ ...draft, autoRewindSeconds: Math.max(0, Number(e.target.value) || 0) })} className={inputClass} />
+            </label>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-between gap-2">
+          <button onClick={() => setDraft(defaultPlaybackSettings)} className="px-4 py-2 rounded-lg text-sm text-gray-500 hover:bg-gray-100">{language === 'es' ? 'Restablecer' : 'Berrezarri'}</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-gray-500 hover:bg-gray-100">{language === 'es' ? 'Cancelar' : 'Utzi'}</button>
+            <button onClick={() => { onSave(draft); onClose(); }} className="px-4 py-2 rounded-lg text-sm bg-indigo-600 text-white font-medium hover:bg-indigo-700">{language === 'es' ? 'Guardar' : 'Gorde'}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
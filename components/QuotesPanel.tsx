@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { TranscriptSegment, Quote, Language } from '../types';
+import { XMarkIcon, QuoteIcon, CopyIcon, PlusIcon, TrashIcon, CheckIcon, DownloadIcon } from './Icons';
+import { extractQuotes } from '../services/transcriptionService';
+import { formatAttributedQuote } from '../services/exportService';
+import { formatTimestamp } from '../services/timecode';
+
+interface QuotesPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  rawSegments: TranscriptSegment[] | undefined; // Quotes are always checked against the literal version
+  quotes: Quote[];
+  onAddQuote: (quote: Quote) => void;
+  onRemoveQuote: (id: string) => void;
+  onExport: () => void;
+  onSeek: (seconds: number) => void;
+  language: Language;
+}
+
+export const QuotesPanel: React.FC<QuotesPanelProps> = ({ isOpen, onClose, rawSegments, quotes, onAddQuote, onRemoveQuote, onExport, onSeek, language }) => {
+  const [candidates, setCandidates] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleExtract = async () => {
+    if (!rawSegments || isLoading) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      setCandidates(await extractQuotes(rawSegments, language));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCopy = (quote: Quote) => {
+    navigator.clipboard.writeText(formatAttributedQuote(quote)).then(() => {
+      setCopiedId(quote.id);
+      setTimeout(() => setCopiedId(current => current === quote.id ? null : current), 1500);
+    }).catch(err => console.error("Clipboard error:", err));
+  };
+
+  const renderQuote = (quote: Quote, actions: React.ReactNode) => (
+    <div key={quote.id} className={`p-3 rounded-lg border ${quote.verified ? 'border-gray-100 bg-white' : 'border-amber-200 bg-amber-50'}`}>
+      <p className="font-serif text-sm leading-relaxed text-gray-800">«{quote.text}»</p>
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <button onClick={() => onSeek(quote.startMs / 1000)} className="text-xs text-gray-500 hover:text-indigo-600 truncate">
+          {quote.speaker} · <span className="font-mono">{formatTimestamp(quote.startMs)}{quote.endMs !== undefined && `–${formatTimestamp(quote.endMs)}`}</span>
+        </button>
+        <div className="flex items-center gap-1 shrink-0">{actions}</div>
+      </div>
+      {!quote.verified && (
+        <p className="mt-1 text-xs text-amber-700">
+          {language === 'es' ? 'No aparece literalmente en la transcripción. Puede ser una paráfrasis.' : 'Ez dago hitzez hitz transkripzioan. Parafrasia izan daiteke.'}
+        </p>
+      )}
+      {quote.verified && quote.reason && <p className="mt-1 text-xs text-gray-400">{quote.reason}</p>}
+    </div>
+  );
+
+  const iconButton = "p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 disabled:hover:bg-transparent disabled:hover:text-gray-400";
+
+  return (
+    <div className="fixed inset-y-0 right-0 w-96 bg-white shadow-2xl z-50 flex flex-col border-l border-gray-200">
+      <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+        <div className="flex items-center gap-2 text-gray-800">
+          <QuoteIcon />
+          <h2 className="font-serif font-bold">{language === 'es' ? 'Citas' : 'Aipuak'}</h2>
+        </div>
+        <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
+          <XMarkIcon />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6 bg-gray-50">
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold uppercase tracking-wider text-gray-500">{language === 'es' ? 'Portapapeles' : 'Arbela'} ({quotes.length})</h3>
+            <button onClick={onExport} disabled={quotes.length === 0} title={language === 'es' ? 'Exportar citas' : 'Esportatu aipuak'} className={iconButton}><DownloadIcon /></button>
+          </div>
+          {quotes.length === 0 && (
+            <p className="text-xs text-gray-400">{language === 'es' ? 'Añade aquí las citas verificadas que quieras usar.' : 'Gehitu hemen erabili nahi dituzun aipu egiaztatuak.'}</p>
+          )}
+          {quotes.map(quote => renderQuote(quote, <>
+            <button onClick={() => handleCopy(quote)} title={language === 'es' ? 'Copiar con atribución' : 'Kopiatu egilearekin'} className={iconButton}>
+              {copiedId === quote.id ? <CheckIcon /> : <CopyIcon />}
+            </button>
+            <button onClick={() => onRemoveQuote(quote.id)} title={language === 'es' ? 'Quitar' : 'Kendu'} className={iconButton}><TrashIcon /></button>
+          </>))}
+        </section>
+
+        <section className="space-y-2">
+          <button
+            onClick={handleExtract} disabled={!rawSegments || isLoading}
+            className="w-full py-2 rounded-lg text-sm bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {isLoading ? (language === 'es' ? 'Buscando citas...' : 'Aipuak bilatzen...') : (language === 'es' ? 'Proponer citas' : 'Proposatu aipuak')}
+          </button>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          {candidates.map(quote => renderQuote(quote, (
+            <button
+              onClick={() => onAddQuote(quote)} disabled={!quote.verified || quotes.some(q => q.id === quote.id)}
+              title={language === 'es' ? 'Añadir al portapapeles' : 'Gehitu arbelera'} className={iconButton}
+            ><PlusIcon /></button>
+          )))}
+        </section>
+      </div>
+    </div>
+  );
+};
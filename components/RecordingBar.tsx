@@ -0,0 +1,46 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { PlayIcon, PauseIcon, StopIcon } from './Icons';
+import { LiveRecorder } from '../services/liveRecorder';
+import { formatTimestamp } from '../services/timecode';
+
+interface RecordingBarProps {
+  recorder: LiveRecorder;
+  onStop: () => void;
+  language: Language;
+}
+
+export const RecordingBar: React.FC<RecordingBarProps> = ({ recorder, onStop, language }) => {
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [isPaused, setIsPaused] = useState(false);
+
+  useEffect(() => {
+    const timer = setInterval(() => setElapsedMs(recorder.elapsedMs()), 500);
+    return () => clearInterval(timer);
+  }, [recorder]);
+
+  const togglePause = () => {
+    if (isPaused) recorder.resume(); else recorder.pause();
+    setIsPaused(!isPaused);
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto pt-8 px-4 sm:px-6">
+      <div className="bg-white border border-red-100 rounded-lg p-4 flex items-center gap-4 shadow-sm">
+        <span className={`h-3 w-3 rounded-full shrink-0 ${isPaused ? 'bg-gray-300' : 'bg-red-500 animate-pulse'}`} />
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-900">
+            {isPaused ? (language === 'es' ? 'Grabación en pausa' : 'Grabazioa pausan') : (language === 'es' ? 'Grabando y transcribiendo en directo' : 'Grabatzen eta zuzenean transkribatzen')}
+          </p>
+          <p className="text-xs text-gray-500 font-mono">{formatTimestamp(elapsedMs)}</p>
+        </div>
+        <button onClick={togglePause} title={isPaused ? (language === 'es' ? 'Reanudar' : 'Berrekin') : (language === 'es' ? 'Pausar' : 'Pausatu')} className="p-2 rounded-full text-gray-500 hover:bg-gray-100 hover:text-indigo-600 [&>svg]:w-5 [&>svg]:h-5">
+          {isPaused ? <PlayIcon /> : <PauseIcon />}
+        </button>
+        <button onClick={onStop} className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm bg-red-600 text-white font-medium hover:bg-red-700 shrink-0">
+          <StopIcon /> {language === 'es' ? 'Detener' : 'Gelditu'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { StoredSession, Language } from '../types';
+import { XMarkIcon, SearchIcon, TrashIcon, ClockIcon, CheckIcon } from './Icons';
+import { getStorageEstimate } from '../services/storageService';
+
+interface SessionSidebarProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sessions: StoredSession[];
+  activeSessionId: string | null;
+  onLoadSession: (session: StoredSession) => void;
+  onDeleteSession: (id: string) => void;
+  onRenameSession: (id: string, name: string) => void;
+  onDuplicateSession: (id: string) => void;
+  language: Language;
+}
+
+const getSnippet = (session: StoredSession, lowerQuery: string): string | null => {
+  const match = session.segments.find(s => s.text.toLowerCase().includes(lowerQuery));
+  if (!match) return null;
+  const index = match.text.toLowerCase().indexOf(lowerQuery);
+  const start = Math.max(0, index - 30);
+  return `${start > 0 ? '…' : ''}${match.text.slice(start, index + lowerQuery.length + 40)}…`;
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+  return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+};
+
+const getDayLabel = (timestamp: number, language: Language): string => {
+  const day = new Date(timestamp);
+  day.setHours(0, 0, 0, 0);
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const diffDays = Math.round((today.getTime() - day.getTime()) / 86400000);
+  if (diffDays === 0) return language === 'es' ? 'Hoy' : 'Gaur';
+  if (diffDays === 1) return language === 'es' ? 'Ayer' : 'Atzo';
+  return day.toLocaleDateString(language === 'es' ? 'es-ES' : 'eu-ES', { day: 'numeric', month: 'long', year: 'numeric' });
+};
+
+export const SessionSidebar: React.FC<SessionSidebarProps> = ({
+  isOpen, onClose, sessions, activeSessionId, onLoadSession, onDeleteSession, onRenameSession, onDuplicateSession, language
+}) => {
+  const [query, setQuery] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const [storage, setStorage] = useState<{ usage: number; quota: number } | null>(null);
+
+  // Refresh the quota whenever the drawer opens or a session is added/removed.
+  useEffect(() => {
+    if (!isOpen) return;
+    getStorageEstimate().then(setStorage).catch(() => setStorage(null));
+  }, [isOpen, sessions.length]);
+
+  const groupedSessions = useMemo(() => {
+    const lowerQuery = query.trim().toLowerCase();
+    const filtered = [...sessions]
+      .sort((a, b) => b.date - a.date)
+      .filter(session => !lowerQuery
+        || session.name.toLowerCase().includes(lowerQuery)
+        || session.segments.some(s => s.speaker.toLowerCase().includes(lowerQuery) || s.text.toLowerCase().includes(lowerQuery)));
+
+    const groups: { label: string; sessions: StoredSession[] }[] = [];
+    filtered.forEach(session => {
+      const label = getDayLabel(session.date, language);
+      const group = groups[groups.length - 1];
+      if (group && group.label === label) group.sessions.push(session);
+      else groups.push({ label, sessions: [session] });
+    });
+    return groups;
+  }, [sessions, query, language]);
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) onRenameSession(renamingId, renameValue.trim());
+    setRenamingId(null);
+  };
+
+  if (!isOpen) return null;
+
+  const lowerQuery = query.trim().toLowerCase();
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/20 z-[55] animate-[fadeIn_0.2s_ease-out]" onClick={onClose} />
+      <aside className="fixed inset-y-0 left-0 w-80 bg-white shadow-2xl z-[56] flex flex-col border-r border-gray-200 animate-[slideIn_0.2s_ease-out]">
+        {/* Header */}
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+          <h2 className="font-serif font-bold text-gray-800">{language === 'es' ? 'Sesiones guardadas' : 'Gordetako saioak'}</h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
+            <XMarkIcon />
+          </button>
+        </div>
+
+        {/* Search */}
+        <div className="p-3 border-b border-gray-100">
+          <div className="relative">
+            <div className="absolute inset-y-0 left-3 flex items-center pointer-events-none text-gray-400"><SearchIcon /></div>
+            <input
+              type="text" value={query} onChange={(e) => setQuery(e.target.value)}
+              placeholder={language === 'es' ? 'Nombre, hablante o texto...' : 'Izena, hizlaria edo testua...'}
+              className="w-full pl-10 pr-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:bg-white focus:ring-2 focus:ring-indigo-100 outline-none"
+            />
+          </div>
+        </div>
+
+        {/* Session List */}
+        <div className="flex-1 overflow-y-auto p-2">
+          {groupedSessions.length === 0 && (
+            <p className="text-center text-sm text-gray-400 py-10 px-4">
+              {sessions.length === 0
+                ? (language === 'es' ? 'Todavía no hay sesiones guardadas.' : 'Oraindik ez dago gordetako saiorik.')
+                : (language === 'es' ? 'Ninguna sesión coincide con la búsqueda.' : 'Ez dago bilaketarekin bat datorren saiorik.')}
+            </p>
+          )}
+
+          {groupedSessions.map(group => (
+            <div key={group.label} className="mb-3">
+              <h3 className="px-3 py-1 text-[11px] font-bold uppercase tracking-wider text-gray-400">{group.label}</h3>
+              {group.sessions.map(session => {
+                const isActive = session.id === activeSessionId;
+                const snippet = lowerQuery ? getSnippet(session, lowerQuery) : null;
+                const speakers = Array.from(new Set(session.segments.map(s => s.speaker)));
+
+                return (
+                  <div key={session.id} className={`group rounded-lg px-3 py-2 mb-1 transition-colors ${isActive ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}>
+                    {renamingId === session.id ? (
+                      <div className="flex items-center gap-1">
+                        <input
+                          autoFocus type="text" value={renameValue}
+                          onChange={(e) => setRenameValue(e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setRenamingId(null); }}
+                          onBlur={commitRename}
+                          className="flex-1 text-sm border border-indigo-200 rounded px-2 py-1 outline-none focus:ring-2 focus:ring-indigo-100"
+                        />
+                        <button onMouseDown={(e) => e.preventDefault()} onClick={commitRename} className="p-1 text-indigo-600"><CheckIcon /></button>
+                      </div>
+                    ) : (
+                      <button onClick={() => onLoadSession(session)} className="w-full text-left">
+                        <p className={`text-sm font-medium truncate ${isActive ? 'text-indigo-700' : 'text-gray-800'}`}>{session.name}</p>
+                        <p className="flex items-center gap-1 text-xs text-gray-400 mt-0.5">
+                          <ClockIcon />
+                          {new Date(session.date).toLocaleTimeString(language === 'es' ? 'es-ES' : 'eu-ES', { hour: '2-digit', minute: '2-digit' })}
+                          <span>· {session.segments.length} {language === 'es' ? 'segmentos' : 'segmentu'}</span>
+                        </p>
+                        {speakers.length > 0 && <p className="text-xs text-gray-500 truncate mt-0.5">{speakers.join(', ')}</p>}
+                        {snippet && <p className="text-xs text-gray-500 italic mt-1 line-clamp-2">{snippet}</p>}
+                      </button>
+                    )}
+
+                    {confirmDeleteId === session.id ? (
+                      <div className="flex items-center justify-end gap-2 mt-2 text-xs">
+                        <span className="text-gray-500 mr-auto">{language === 'es' ? '¿Eliminar sesión?' : 'Saioa ezabatu?'}</span>
+                        <button onClick={() => setConfirmDeleteId(null)} className="px-2 py-1 rounded text-gray-500 hover:bg-gray-100">{language === 'es' ? 'Cancelar' : 'Utzi'}</button>
+                        <button onClick={() => { onDeleteSession(session.id); setConfirmDeleteId(null); }} className="px-2 py-1 rounded bg-red-600 text-white hover:bg-red-700">{language === 'es' ? 'Eliminar' : 'Ezabatu'}</button>
+                      </div>
+                    ) : renamingId !== session.id && (
+                      <div className="flex items-center gap-3 mt-1 text-xs text-gray-400 opacity-0 group-hover:opacity-100 transition-opacity">
+                        <button onClick={() => { setRenamingId(session.id); setRenameValue(session.name); }} className="hover:text-indigo-600">{language === 'es' ? 'Renombrar' : 'Berrizendatu'}</button>
+                        <button onClick={() => onDuplicateSession(session.id)} className="hover:text-indigo-600">{language === 'es' ? 'Duplicar' : 'Bikoiztu'}</button>
+                        <button onClick={() => setConfirmDeleteId(session.id)} className="ml-auto p-0.5 hover:text-red-600"><TrashIcon /></button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+
+        {/* Storage Quota */}
+        {storage && storage.quota > 0 && (
+          <div className="p-4 border-t border-gray-100">
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>{language === 'es' ? 'Almacenamiento' : 'Biltegiratzea'}</span>
+              <span className="tabular-nums">{formatBytes(storage.usage)} / {formatBytes(storage.quota)}</span>
+            </div>
+            <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className={`h-full rounded-full ${storage.usage / storage.quota > 0.9 ? 'bg-red-500' : 'bg-indigo-500'}`}
+                style={{ width: `${Math.min(100, (storage.usage / storage.quota) * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+      </aside>
+    </>
+  );
+};
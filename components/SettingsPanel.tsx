@@ -0,0 +1,89 @@
+import React, { useState, useEffect } from 'react';
+import { ProviderSettings, ProviderId, Language } from '../types';
+import { XMarkIcon, CogIcon } from './Icons';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: ProviderSettings;
+  onSave: (settings: ProviderSettings) => void;
+  language: Language;
+}
+
+const providerOptions: { id: ProviderId; label: Record<Language, string> }[] = [
+  { id: 'gemini', label: { es: 'Google Gemini', eu: 'Google Gemini' } },
+  { id: 'openai-compatible', label: { es: 'Servidor compatible con OpenAI / Whisper', eu: 'OpenAI / Whisper-ekin bateragarria den zerbitzaria' } }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, onClose, settings, onSave, language }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+
+  useEffect(() => {
+    if (isOpen) setDraft(settings);
+  }, [isOpen, settings]);
+
+  if (!isOpen) return null;
+
+  const update = (changes: Partial<ProviderSettings>) => setDraft(prev => ({ ...prev, ...changes }));
+  const isOpenAI = draft.provider === 'openai-compatible';
+  const inputClass = "w-full px-3 py-2 bg-gray-50 border border-gray-200 rounded-lg text-sm focus:bg-white focus:ring-2 focus:ring-indigo-100 outline-none";
+
+  return (
+    <div className="fixed inset-0 bg-black/20 z-[70] flex items-center justify-center p-6 animate-[fadeIn_0.2s_ease-out]" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md animate-[scaleIn_0.15s_ease-out]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+          <div className="flex items-center gap-2 text-gray-800">
+            <CogIcon />
+            <h2 className="font-serif font-bold">{language === 'es' ? 'Proveedor de IA' : 'IA hornitzailea'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
+            <XMarkIcon />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 text-sm">
+          <div className="space-y-2">
+            {providerOptions.map(option => (
+              <label key={option.id} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${draft.provider === option.id ? 'border-indigo-300 bg-indigo-50' : 'border-gray-200 hover:bg-gray-50'}`}>
+                <input type="radio" name="provider" checked={draft.provider === option.id} onChange={() => update({ provider: option.id })} />
+                {option.label[language]}
+              </label>
+            ))}
+          </div>
+
+          {isOpenAI && (
+            <label className="block">
+              <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'URL base de la API' : 'APIaren oinarrizko URLa'}</span>
+              <input type="url" value={draft.endpoint} onChange={(e) => update({ endpoint: e.target.value })} placeholder="http://localhost:8000/v1" className={inputClass} />
+            </label>
+          )}
+
+          <label className="block">
+            <span className="text-xs font-medium text-gray-500">
+              {language === 'es' ? 'Clave de API' : 'API gakoa'} {!isOpenAI && <span className="text-gray-400">({language === 'es' ? 'vacía: usa la del despliegue' : 'hutsik: hedapenekoa erabiltzen du'})</span>}
+            </span>
+            <input type="password" value={draft.apiKey} onChange={(e) => update({ apiKey: e.target.value })} autoComplete="off" className={inputClass} />
+          </label>
+
+          {isOpenAI && (
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'Modelo de transcripción' : 'Transkripzio eredua'}</span>
+                <input type="text" value={draft.transcriptionModel} onChange={(e) => update({ transcriptionModel: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="text-xs font-medium text-gray-500">{language === 'es' ? 'Modelo de texto' : 'Testu eredua'}</span>
+                <input type="text" value={draft.chatModel} onChange={(e) => update({ chatModel: e.target.value })} className={inputClass} />
+              </label>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 rounded-lg text-sm text-gray-500 hover:bg-gray-100">{language === 'es' ? 'Cancelar' : 'Utzi'}</button>
+          <button onClick={() => { onSave(draft); onClose(); }} className="px-4 py-2 rounded-lg text-sm bg-indigo-600 text-white font-medium hover:bg-indigo-700">{language === 'es' ? 'Guardar' : 'Gorde'}</button>
+        </div>
+      </div>
+    </div>
+  );
+};
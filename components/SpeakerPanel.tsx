@@ -0,0 +1,150 @@
+import React, { useState, useMemo } from 'react';
+import { TranscriptSegment, SpeakerProfile, SpeakerRole, Language } from '../types';
+import { XMarkIcon, UsersIcon } from './Icons';
+import { speakerPalette, roleLabels, getSpeakerColor, getSpeakerStats } from '../services/speakers';
+import { formatTimestamp } from '../services/timecode';
+
+interface SpeakerPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  segments: TranscriptSegment[];
+  speakers: Record<string, SpeakerProfile>;
+  onRename: (from: string, to: string) => void;
+  onAssignRange: (fromId: string, toId: string, speaker: string) => void;
+  onUpdateProfile: (name: string, changes: Partial<SpeakerProfile>) => void;
+  language: Language;
+}
+
+const preview = (segment: TranscriptSegment) => `[${formatTimestamp(segment.startMs)}] ${segment.text.slice(0, 40)}${segment.text.length > 40 ? '…' : ''}`;
+
+export const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ isOpen, onClose, segments, speakers, onRename, onAssignRange, onUpdateProfile, language }) => {
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [pickingColorFor, setPickingColorFor] = useState<string | null>(null);
+  const [range, setRange] = useState({ fromId: '', toId: '', speaker: '' });
+
+  const stats = useMemo(() => getSpeakerStats(segments), [segments]);
+
+  if (!isOpen) return null;
+
+  const commitRename = () => {
+    if (editingName && nameDraft.trim()) onRename(editingName, nameDraft);
+    setEditingName(null);
+  };
+
+  const handleAssignRange = () => {
+    onAssignRange(range.fromId || segments[0]?.id, range.toId || segments[segments.length - 1]?.id, range.speaker);
+    setRange({ fromId: '', toId: '', speaker: '' });
+  };
+
+  const selectClass = "w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-100";
+
+  return (
+    <div className="fixed inset-0 bg-black/20 z-[70] flex items-center justify-center p-6 animate-[fadeIn_0.2s_ease-out]" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-full flex flex-col animate-[scaleIn_0.15s_ease-out]" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-gray-100 flex justify-between items-center">
+          <div className="flex items-center gap-2 text-gray-800">
+            <UsersIcon />
+            <h2 className="font-serif font-bold">{language === 'es' ? 'Hablantes' : 'Hizlariak'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full transition-colors">
+            <XMarkIcon />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 overflow-y-auto text-sm">
+          {stats.map(({ name, segmentCount, talkMs }) => {
+            const color = getSpeakerColor(name, speakers);
+            const others = stats.filter(s => s.name !== name);
+            return (
+              <div key={name} className="p-3 rounded-lg border border-gray-100 hover:border-gray-200">
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => setPickingColorFor(pickingColorFor === name ? null : name)}
+                    title={language === 'es' ? 'Color' : 'Kolorea'}
+                    className={`w-4 h-4 rounded-full shrink-0 ${color.swatch}`}
+                  />
+                  {editingName === name ? (
+                    <input
+                      autoFocus value={nameDraft}
+                      onChange={(e) => setNameDraft(e.target.value)}
+                      onBlur={commitRename}
+                      onKeyDown={(e) => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingName(null); }}
+                      className="flex-1 min-w-0 px-2 py-0.5 border border-indigo-200 rounded text-sm font-bold outline-none"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => { setEditingName(name); setNameDraft(name); }}
+                      title={language === 'es' ? 'Renombrar en toda la transcripción' : 'Berrizendatu transkripzio osoan'}
+                      className={`flex-1 min-w-0 text-left font-bold truncate ${color.text}`}
+                    >{name}</button>
+                  )}
+                  <span className="text-xs text-gray-400 font-mono shrink-0">
+                    {formatTimestamp(talkMs)} · {segmentCount} {language === 'es' ? 'seg.' : 'zati'}
+                  </span>
+                </div>
+
+                {pickingColorFor === name && (
+                  <div className="flex items-center gap-2 mt-2 pl-7">
+                    {speakerPalette.map(option => (
+                      <button
+                        key={option.id}
+                        onClick={() => { onUpdateProfile(name, { color: option.id }); setPickingColorFor(null); }}
+                        className={`w-5 h-5 rounded-full ${option.swatch} ${option.id === color.id ? 'ring-2 ring-offset-1 ring-gray-400' : ''}`}
+                      />
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2 mt-2 pl-7">
+                  <select
+                    value={speakers[name]?.role ?? ''}
+                    onChange={(e) => onUpdateProfile(name, { role: (e.target.value || undefined) as SpeakerRole | undefined })}
+                    className={selectClass}
+                  >
+                    <option value="">{language === 'es' ? 'Sin rol' : 'Rolik gabe'}</option>
+                    {(Object.keys(roleLabels) as SpeakerRole[]).map(role => <option key={role} value={role}>{roleLabels[role][language]}</option>)}
+                  </select>
+                  <select
+                    value="" disabled={others.length === 0}
+                    onChange={(e) => e.target.value && onRename(name, e.target.value)}
+                    className={selectClass}
+                  >
+                    <option value="">{language === 'es' ? 'Fusionar con…' : 'Batu honekin…'}</option>
+                    {others.map(other => <option key={other.name} value={other.name}>{other.name}</option>)}
+                  </select>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="p-4 border-t border-gray-100 space-y-2">
+          <p className="text-xs font-medium text-gray-500">{language === 'es' ? 'Reasignar un tramo de segmentos' : 'Zati-tarte bat berriro esleitu'}</p>
+          <div className="grid grid-cols-2 gap-2">
+            <select value={range.fromId} onChange={(e) => setRange({ ...range, fromId: e.target.value })} className={selectClass}>
+              <option value="">{language === 'es' ? 'Desde el principio' : 'Hasieratik'}</option>
+              {segments.map(s => <option key={s.id} value={s.id}>{preview(s)}</option>)}
+            </select>
+            <select value={range.toId} onChange={(e) => setRange({ ...range, toId: e.target.value })} className={selectClass}>
+              <option value="">{language === 'es' ? 'Hasta el final' : 'Amaierara arte'}</option>
+              {segments.map(s => <option key={s.id} value={s.id}>{preview(s)}</option>)}
+            </select>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text" list="known-speakers" value={range.speaker}
+              onChange={(e) => setRange({ ...range, speaker: e.target.value })}
+              placeholder={language === 'es' ? 'Hablante' : 'Hizlaria'}
+              className="flex-1 px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs outline-none focus:ring-2 focus:ring-indigo-100"
+            />
+            <button
+              onClick={handleAssignRange} disabled={!range.speaker.trim()}
+              className="px-3 py-1.5 rounded-lg text-xs bg-indigo-600 text-white font-medium hover:bg-indigo-700 disabled:opacity-40"
+            >{language === 'es' ? 'Asignar' : 'Esleitu'}</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { CameraIcon, XMarkIcon, VideoIcon } from './Icons';
+
+interface VideoPaneProps {
+  videoRef: (el: HTMLVideoElement | null) => void;
+  src: string;
+  mediaEvents: Pick<React.VideoHTMLAttributes<HTMLVideoElement>, 'onTimeUpdate' | 'onLoadedMetadata' | 'onEnded'>;
+  caption: string | null; // Text of the segment playing now
+  onGrabFrame: () => void;
+}
+
+// Floating pane for video uploads. The <video> stays mounted while the pane is hidden, since it
+// is also the element that plays the sound.
+export const VideoPane: React.FC<VideoPaneProps> = ({ videoRef, src, mediaEvents, caption, onGrabFrame }) => {
+  const [isHidden, setIsHidden] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [width, setWidth] = useState(384);
+  const [resizeFrom, setResizeFrom] = useState<{ x: number; width: number } | null>(null);
+
+  // The pane hangs from the right edge, so it is resized from its bottom-left corner.
+  const handleResize = (e: React.PointerEvent) => {
+    if (!resizeFrom) return;
+    setWidth(Math.min(window.innerWidth * 0.8, Math.max(256, resizeFrom.width + resizeFrom.x - e.clientX)));
+  };
+
+  return (
+    <>
+      <div
+        className={`fixed top-20 right-4 z-30 overflow-hidden rounded-xl bg-black shadow-2xl group ${isHidden ? 'hidden' : ''}`}
+        style={{ width }}
+      >
+        <video ref={videoRef} src={src} {...mediaEvents} playsInline className="block w-full max-h-[60vh] object-contain" />
+        {showCaptions && caption && (
+          <p className="absolute inset-x-4 bottom-4 text-center pointer-events-none">
+            <span className="bg-black/70 text-white text-sm leading-relaxed px-2 py-0.5 rounded box-decoration-clone">{caption}</span>
+          </p>
+        )}
+        <div
+          className="absolute bottom-0 left-0 w-4 h-4 cursor-nesw-resize opacity-0 group-hover:opacity-100 border-l-2 border-b-2 border-white/70 rounded-bl-xl"
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setResizeFrom({ x: e.clientX, width }); }}
+          onPointerMove={handleResize}
+          onPointerUp={() => setResizeFrom(null)}
+        />
+        <div className="absolute top-2 right-2 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+          <button onClick={() => setShowCaptions(!showCaptions)} title="Subtítulos" className={`px-1.5 py-0.5 rounded text-xs font-bold ${showCaptions ? 'bg-white text-black' : 'bg-black/60 text-white'}`}>CC</button>
+          <button onClick={onGrabFrame} title="Capturar fotograma" className="p-1 rounded bg-black/60 text-white hover:bg-black/80"><CameraIcon /></button>
+          <button onClick={() => setIsHidden(true)} title="Ocultar vídeo" className="p-1 rounded bg-black/60 text-white hover:bg-black/80 [&>svg]:w-4 [&>svg]:h-4"><XMarkIcon /></button>
+        </div>
+      </div>
+      {isHidden && (
+        <button onClick={() => setIsHidden(false)} title="Mostrar vídeo" className="fixed top-20 right-4 z-30 p-2 rounded-full bg-white border border-gray-200 shadow text-gray-500 hover:text-indigo-600">
+          <VideoIcon />
+        </button>
+      )}
+    </>
+  );
+};
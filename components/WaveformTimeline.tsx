@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TranscriptSegment, SpeakerProfile, Language } from '../types';
+import { PlusIcon } from './Icons';
+import { decodeAudio } from '../services/audioChunker';
+import { computeEnergyEnvelope } from '../services/wordAlignment';
+import { getSpeakerColor } from '../services/speakers';
+
+interface WaveformTimelineProps {
+  file: File;
+  segments: TranscriptSegment[];
+  speakers: Record<string, SpeakerProfile>;
+  currentTime: number;
+  onSeek: (seconds: number) => void;
+  onSelectSegment: (id: string) => void;
+  onRetimeSegment: (id: string, startMs: number, endMs: number) => void;
+  language: Language;
+}
+
+const HEIGHT = 72;
+const ZOOM_LEVELS = [2, 5, 10, 25, 50, 100, 200]; // Pixels per second
+const MIN_SEGMENT_MS = 200;
+
+interface Drag {
+  id: string;
+  edge: 'start' | 'end';
+  startMs: number;
+  endMs: number;
+}
+
+// Segments without an end time last until the next one starts.
+const segmentEnd = (segments: TranscriptSegment[], index: number, durationMs: number) =>
+  segments[index].endMs ?? segments[index + 1]?.startMs ?? durationMs;
+
+export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({ file, segments, speakers, currentTime, onSeek, onSelectSegment, onRetimeSegment, language }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [waveform, setWaveform] = useState<{ envelope: Float32Array; peak: number; duration: number } | null>(null);
+  const [error, setError] = useState(false);
+  const [zoom, setZoom] = useState(3);
+  const [viewport, setViewport] = useState({ left: 0, width: 0 });
+  const [drag, setDrag] = useState<Drag | null>(null);
+
+  const pxPerSecond = ZOOM_LEVELS[zoom];
+  const duration = waveform?.duration ?? 0;
+  const durationMs = duration * 1000;
+
+  useEffect(() => {
+    let cancelled = false;
+    setWaveform(null);
+    setError(false);
+    decodeAudio(file).then(buffer => {
+      if (cancelled) return;
+      const envelope = computeEnergyEnvelope(buffer);
+      setWaveform({ envelope, peak: envelope.reduce((max, v) => Math.max(max, v), 0) || 1, duration: buffer.duration });
+    }).catch(err => {
+      console.error("Waveform decode error:", err);
+      if (!cancelled) setError(true);
+    });
+    return () => { cancelled = true; };
+  }, [file]);
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const update = () => setViewport({ left: el.scrollLeft, width: el.clientWidth });
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [waveform]);
+
+  // The canvas only covers the visible window; a full-length canvas would exceed browser limits.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !waveform || viewport.width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = viewport.width * ratio;
+    canvas.height = HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, viewport.width, HEIGHT);
+    ctx.fillStyle = '#9ca3af';
+    const framesPerSecond = waveform.envelope.length / waveform.duration;
+    for (let x = 0; x < viewport.width; x++) {
+      const from = Math.floor(((viewport.left + x) / pxPerSecond) * framesPerSecond);
+      const to = Math.max(from + 1, Math.floor(((viewport.left + x + 1) / pxPerSecond) * framesPerSecond));
+      if (from >= waveform.envelope.length) break;
+      let value = 0;
+      for (let f = from; f < Math.min(to, waveform.envelope.length); f++) value = Math.max(value, waveform.envelope[f]);
+      const height = Math.max(1, (value / waveform.peak) * (HEIGHT - 8));
+      ctx.fillRect(x, (HEIGHT - height) / 2, 1, height);
+    }
+  }, [waveform, viewport, pxPerSecond]);
+
+  // Keeps the playhead in view during playback, unless an edge is being dragged.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || drag) return;
+    const x = currentTime * pxPerSecond;
+    if (x < el.scrollLeft || x > el.scrollLeft + el.clientWidth) el.scrollLeft = Math.max(0, x - el.clientWidth * 0.1);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTime, pxPerSecond]);
+
+  const changeZoom = (delta: number, anchorX?: number) => {
+    const el = scrollRef.current;
+    const next = Math.min(ZOOM_LEVELS.length - 1, Math.max(0, zoom + delta));
+    if (!el || next === zoom) return;
+    // Zooms around the pointer, or around the playhead from the buttons.
+    const anchorTime = anchorX !== undefined ? (el.scrollLeft + anchorX) / pxPerSecond : currentTime;
+    const offset = anchorX ?? anchorTime * pxPerSecond - el.scrollLeft;
+    setZoom(next);
+    requestAnimationFrame(() => { el.scrollLeft = Math.max(0, anchorTime * ZOOM_LEVELS[next] - offset); });
+  };
+
+  // Ctrl/Cmd+wheel zooms; React's wheel listener is passive and cannot stop the page zoom.
+  const changeZoomRef = useRef(changeZoom);
+  changeZoomRef.current = changeZoom;
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      changeZoomRef.current(e.deltaY < 0 ? 1 : -1, e.clientX - el.getBoundingClientRect().left);
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, [waveform]);
+
+  const timeAt = (clientX: number) => {
+    const el = scrollRef.current!;
+    return (clientX - el.getBoundingClientRect().left + el.scrollLeft) / pxPerSecond;
+  };
+
+  const startDrag = (e: React.PointerEvent, index: number, edge: Drag['edge']) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const segment = segments[index];
+    setDrag({ id: segment.id, edge, startMs: segment.startMs, endMs: segmentEnd(segments, index, durationMs) });
+  };
+
+  // Edges stay between the neighbours' edges, so regions never overlap and order never changes.
+  const moveDrag = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const index = segments.findIndex(s => s.id === drag.id);
+    const ms = Math.round(timeAt(e.clientX) * 1000);
+    if (drag.edge === 'start') {
+      const previous = segments[index - 1];
+      const min = previous ? Math.max(previous.startMs + MIN_SEGMENT_MS, previous.endMs ?? 0) : 0;
+      const max = drag.endMs - MIN_SEGMENT_MS;
+      setDrag({ ...drag, startMs: Math.min(Math.max(ms, min), max) });
+    } else {
+      const max = Math.min(segments[index + 1]?.startMs ?? Infinity, durationMs);
+      setDrag({ ...drag, endMs: Math.min(Math.max(ms, drag.startMs + MIN_SEGMENT_MS), max) });
+    }
+  };
+
+  const endDrag = () => {
+    if (!drag) return;
+    const index = segments.findIndex(s => s.id === drag.id);
+    if (drag.startMs !== segments[index]?.startMs || drag.endMs !== segmentEnd(segments, index, durationMs)) {
+      onRetimeSegment(drag.id, drag.startMs, drag.endMs);
+    }
+    setDrag(null);
+  };
+
+  if (error) {
+    return <p className="max-w-4xl mx-auto mb-3 text-xs text-gray-400">{language === 'es' ? 'No se pudo generar la forma de onda.' : 'Ezin izan da uhin-forma sortu.'}</p>;
+  }
+
+  if (!waveform) {
+    return <p className="max-w-4xl mx-auto mb-3 text-xs text-gray-400 animate-pulse">{language === 'es' ? 'Generando forma de onda...' : 'Uhin-forma sortzen...'}</p>;
+  }
+
+  const visibleFrom = viewport.left / pxPerSecond * 1000;
+  const visibleTo = (viewport.left + viewport.width) / pxPerSecond * 1000;
+
+  return (
+    <div className="max-w-4xl mx-auto mb-3 flex items-stretch gap-2">
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-x-auto overflow-y-hidden rounded-lg bg-gray-50 border border-gray-200 cursor-pointer"
+        onScroll={(e) => setViewport({ left: e.currentTarget.scrollLeft, width: e.currentTarget.clientWidth })}
+        onClick={(e) => onSeek(Math.min(duration, Math.max(0, timeAt(e.clientX))))}
+      >
+        <div className="relative" style={{ width: Math.max(duration * pxPerSecond, viewport.width), height: HEIGHT }}>
+          <canvas ref={canvasRef} className="sticky left-0 top-0 block pointer-events-none" style={{ width: viewport.width, height: HEIGHT }} />
+          {segments.map((segment, index) => {
+            const isDragged = drag?.id === segment.id;
+            const startMs = isDragged ? drag.startMs : segment.startMs;
+            const endMs = isDragged ? drag.endMs : segmentEnd(segments, index, durationMs);
+            if (endMs < visibleFrom || startMs > visibleTo) return null;
+            const color = `#${getSpeakerColor(segment.speaker, speakers).hex}`;
+            return (
+              <div
+                key={segment.id}
+                className="absolute top-1 bottom-1 rounded border group/region"
+                style={{ left: startMs / 1000 * pxPerSecond, width: Math.max(2, (endMs - startMs) / 1000 * pxPerSecond), backgroundColor: `${color}33`, borderColor: `${color}99` }}
+                title={`${segment.speaker}: ${segment.text.slice(0, 80)}`}
+                onClick={(e) => { e.stopPropagation(); onSelectSegment(segment.id); }}
+              >
+                {(['start', 'end'] as const).map(edge => (
+                  <div
+                    key={edge}
+                    className={`absolute inset-y-0 w-1.5 cursor-ew-resize opacity-0 group-hover/region:opacity-100 ${edge === 'start' ? 'left-0' : 'right-0'} ${isDragged ? 'opacity-100' : ''}`}
+                    style={{ backgroundColor: color }}
+                    onPointerDown={(e) => startDrag(e, index, edge)}
+                    onPointerMove={moveDrag}
+                    onPointerUp={endDrag}
+                    onClick={(e) => e.stopPropagation()}
+                  />
+                ))}
+              </div>
+            );
+          })}
+          <div className="absolute inset-y-0 w-px bg-indigo-600 pointer-events-none" style={{ left: currentTime * pxPerSecond }} />
+        </div>
+      </div>
+      <div className="flex flex-col justify-center gap-1">
+        <button onClick={() => changeZoom(1)} disabled={zoom === ZOOM_LEVELS.length - 1} title={language === 'es' ? 'Acercar' : 'Hurbildu'} className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 [&>svg]:w-4 [&>svg]:h-4"><PlusIcon /></button>
+        <button onClick={() => changeZoom(-1)} disabled={zoom === 0} title={language === 'es' ? 'Alejar' : 'Urrundu'} className="p-1 rounded text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 disabled:opacity-30 font-bold leading-4 w-6">−</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import { TranscriptSegment, Language, ProviderSettings, GlossaryEntry } from "../types";
+
+// Provider-neutral contracts. Task logic (prompts, id mapping, chunking) lives in
+// transcriptionService; providers only know how to talk to their backend.
+
+export type RawSegment = Omit<TranscriptSegment, 'id'>;
+
+// Plain JSON Schema subset shared by every backend's structured output mode.
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  description?: string;
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+}
+
+export interface GenerationRequest {
+  prompt: string;
+  context?: string; // Transcript or payload the prompt refers to
+  systemInstruction?: string;
+  tier?: 'fast' | 'quality';
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  systemInstruction: string;
+  turns: ChatTurn[]; // Whole conversation, ending with the user's new message
+}
+
+export interface TranscriptionOptions {
+  signal?: AbortSignal;
+  onSegments?: (received: RawSegment[]) => void; // Everything received so far, from providers that stream
+  glossary?: GlossaryEntry[]; // Spellings to steer the model towards
+}
+
+export interface TranscriptionProvider {
+  readonly maxUploadBytes: number;
+  transcribe: (media: Blob, language: Language, options?: TranscriptionOptions) => Promise<RawSegment[]>;
+}
+
+export interface LLMProvider {
+  generateText: (request: GenerationRequest) => Promise<string>;
+  generateJson: <T>(request: GenerationRequest & { schema: JsonSchema }) => Promise<T>;
+  streamChat: (request: ChatRequest, onText: (textSoFar: string) => void) => Promise<string>;
+}
+
+export interface AIProvider extends TranscriptionProvider, LLMProvider {}
+
+export const defaultProviderSettings: ProviderSettings = {
+  provider: 'gemini',
+  apiKey: '',
+  endpoint: 'http://localhost:8000/v1',
+  transcriptionModel: 'whisper-1',
+  chatModel: 'gpt-4o-mini'
+};
@@ -0,0 +1,101 @@
+// Client-side audio decoding and chunking for recordings too large or too long to send
+// to the model in a single request. Audio is decoded at 16kHz mono, which is all speech
+// recognition needs and keeps each WAV chunk small enough to send inline.
+
+const TARGET_SAMPLE_RATE = 16000;
+
+export interface AudioChunk {
+  index: number;
+  offsetSeconds: number; // Absolute start of the chunk within the recording
+  durationSeconds: number;
+  blob: Blob; // audio/wav
+}
+
+export const getMediaDuration = (file: Blob): Promise<number> => {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const media = document.createElement('audio');
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(media.duration) ? media.duration : 0);
+    };
+    media.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(0);
+    };
+    media.src = url;
+  });
+};
+
+export const decodeAudio = async (file: Blob): Promise<AudioBuffer> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // decodeAudioData resamples to the context rate, so this also downsamples to 16kHz.
+  const context = new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE);
+  return context.decodeAudioData(arrayBuffer);
+};
+
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate
+  view.setUint16(32, 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Splits the buffer into chunks of `chunkSeconds`, each extended by `overlapSeconds` into
+// the next one so words cut at a boundary are heard whole in at least one chunk.
+export const splitAudioBuffer = (buffer: AudioBuffer, chunkSeconds: number, overlapSeconds: number): AudioChunk[] => {
+  const samples = mixToMono(buffer);
+  const rate = buffer.sampleRate;
+  const chunks: AudioChunk[] = [];
+
+  for (let offset = 0, index = 0; offset < buffer.duration; offset += chunkSeconds, index++) {
+    const start = Math.floor(offset * rate);
+    const end = Math.min(samples.length, Math.floor((offset + chunkSeconds + overlapSeconds) * rate));
+    chunks.push({
+      index,
+      offsetSeconds: offset,
+      durationSeconds: (end - start) / rate,
+      blob: encodeWav(samples.subarray(start, end), rate)
+    });
+  }
+  return chunks;
+};
+
+// Re-encodes any decodable recording (e.g. MediaRecorder WebM) as 16kHz mono WAV, which every
+// provider accepts and the media element can seek in.
+export const toWav = async (blob: Blob): Promise<Blob> => {
+  const buffer = await decodeAudio(blob);
+  return encodeWav(mixToMono(buffer), buffer.sampleRate);
+};
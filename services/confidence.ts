@@ -0,0 +1,44 @@
+import { TranscriptSegment } from "../types";
+
+// Segments below this are flagged as a whole when the provider did not point at specific passages.
+export const LOW_CONFIDENCE = 0.7;
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Models answer either 0-1 or a percentage; anything else is treated as not reported.
+export const toConfidence = (value: unknown): number | undefined => {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n) || n < 0) return undefined;
+  return Math.min(1, n > 1 ? n / 100 : n);
+};
+
+export const isLowConfidence = (segment: TranscriptSegment): boolean =>
+  segment.confidence !== undefined && segment.confidence < LOW_CONFIDENCE;
+
+// Character ranges to flag in the text. Spans are looked up in the current text, so editing one
+// away clears it; a low-confidence segment with no span left is flagged whole.
+export const findUncertainRanges = (segment: TranscriptSegment): TextRange[] => {
+  const ranges: TextRange[] = [];
+  for (const span of segment.uncertainSpans ?? []) {
+    const needle = span.trim();
+    if (!needle) continue;
+    for (let at = segment.text.indexOf(needle); at !== -1; at = segment.text.indexOf(needle, at + needle.length)) {
+      ranges.push({ start: at, end: at + needle.length });
+    }
+  }
+  if (ranges.length === 0) {
+    return isLowConfidence(segment) && segment.text.trim() ? [{ start: 0, end: segment.text.length }] : [];
+  }
+  ranges.sort((a, b) => a.start - b.start);
+  return ranges.reduce<TextRange[]>((merged, range) => {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+    return merged;
+  }, []);
+};
+
+export const isUncertain = (segment: TranscriptSegment): boolean => findUncertainRanges(segment).length > 0;
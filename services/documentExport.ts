@@ -0,0 +1,141 @@
+import { TranscriptSegment, Language, SpeakerProfile } from "../types";
+import { formatTimestamp } from "./timecode";
+import { roleLabels } from "./speakers";
+
+// Word and PDF exports in interview layout. The heavy libraries are imported on demand so
+// they only load when someone actually exports.
+
+export interface DocumentMeta {
+  title: string; // Source file name
+  date: number;
+  language: Language;
+  versionLabel: string; // Human-readable name of the exported EditMode
+  speakers: Record<string, SpeakerProfile>; // Roles: interviewer turns are set in bold as questions
+}
+
+export interface DocumentOptions {
+  includeTimestamps: boolean;
+}
+
+const headerLabels: Record<Language, { file: string; date: string; language: string; speakers: string; version: string; languageName: string }> = {
+  es: { file: 'Archivo', date: 'Fecha', language: 'Idioma', speakers: 'Hablantes', version: 'Versión', languageName: 'Español' },
+  eu: { file: 'Fitxategia', date: 'Data', language: 'Hizkuntza', speakers: 'Hizlariak', version: 'Bertsioa', languageName: 'Euskara' }
+};
+
+const buildHeaderRows = (segments: TranscriptSegment[], meta: DocumentMeta): [string, string][] => {
+  const labels = headerLabels[meta.language];
+  const speakers = Array.from(new Set(segments.map(s => s.speaker))).map(name => {
+    const role = meta.speakers[name]?.role;
+    return role ? `${name} (${roleLabels[role][meta.language].toLowerCase()})` : name;
+  }).join(', ');
+  return [
+    [labels.file, meta.title],
+    [labels.date, new Date(meta.date).toLocaleString(meta.language === 'es' ? 'es-ES' : 'eu-ES')],
+    [labels.language, labels.languageName],
+    [labels.speakers, speakers],
+    [labels.version, meta.versionLabel]
+  ];
+};
+
+const isQuestion = (segment: TranscriptSegment, meta: DocumentMeta) => meta.speakers[segment.speaker]?.role === 'interviewer';
+
+export const toDocx = async (segments: TranscriptSegment[], meta: DocumentMeta, options: DocumentOptions): Promise<Blob> => {
+  const { Document, Packer, Paragraph, TextRun, HeadingLevel, BorderStyle } = await import('docx');
+
+  const header = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(meta.title)] }),
+    ...buildHeaderRows(segments, meta).map(([label, value]) => new Paragraph({
+      children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)]
+    })),
+    new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'CCCCCC', space: 8 } }, children: [] })
+  ];
+
+  const body = segments.map(segment => new Paragraph({
+    spacing: { before: 240 },
+    children: [
+      ...(options.includeTimestamps ? [new TextRun({ text: `[${formatTimestamp(segment.startMs)}] `, color: '888888' })] : []),
+      new TextRun({ text: `${segment.speaker}: `, bold: true }),
+      new TextRun({ text: segment.text, bold: isQuestion(segment, meta) })
+    ]
+  }));
+
+  const doc = new Document({
+    title: meta.title,
+    styles: { default: { document: { run: { font: 'Georgia', size: 22 } } } },
+    sections: [{ children: [...header, ...body] }]
+  });
+  return Packer.toBlob(doc);
+};
+
+export const toPdf = async (segments: TranscriptSegment[], meta: DocumentMeta, options: DocumentOptions): Promise<Blob> => {
+  const { jsPDF } = await import('jspdf');
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const margin = 56;
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pdf.internal.pageSize.getWidth() - margin * 2;
+  const lineHeight = 15;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      pdf.addPage();
+      y = margin;
+    }
+  };
+
+  pdf.setFont('times', 'bold');
+  pdf.setFontSize(18);
+  pdf.splitTextToSize(meta.title, contentWidth).forEach((line: string) => {
+    ensureSpace(22);
+    pdf.text(line, margin, y);
+    y += 22;
+  });
+  y += 4;
+
+  pdf.setFontSize(10);
+  buildHeaderRows(segments, meta).forEach(([label, value]) => {
+    pdf.setFont('helvetica', 'bold');
+    const labelText = `${label}: `;
+    const labelWidth = pdf.getTextWidth(labelText);
+    pdf.setFont('helvetica', 'normal');
+    const lines: string[] = pdf.splitTextToSize(value, contentWidth - labelWidth);
+    ensureSpace(lines.length * 13);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(labelText, margin, y);
+    pdf.setFont('helvetica', 'normal');
+    lines.forEach((line, i) => pdf.text(line, margin + labelWidth, y + i * 13));
+    y += lines.length * 13;
+  });
+
+  y += 6;
+  pdf.setDrawColor(204);
+  pdf.line(margin, y, margin + contentWidth, y);
+  y += 24;
+
+  pdf.setFontSize(11);
+  segments.forEach(segment => {
+    ensureSpace(lineHeight * 2);
+    let x = margin;
+    if (options.includeTimestamps) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(136);
+      const stamp = `[${formatTimestamp(segment.startMs)}] `;
+      pdf.text(stamp, x, y);
+      x += pdf.getTextWidth(stamp);
+    }
+    pdf.setFont('helvetica', 'bold');
+    pdf.setTextColor(26);
+    pdf.text(segment.speaker, x, y);
+    y += lineHeight;
+
+    pdf.setFont('times', isQuestion(segment, meta) ? 'bold' : 'normal');
+    (pdf.splitTextToSize(segment.text, contentWidth) as string[]).forEach(line => {
+      ensureSpace(lineHeight);
+      pdf.text(line, margin, y);
+      y += lineHeight;
+    });
+    y += lineHeight * 0.6;
+  });
+
+  return pdf.output('blob');
+};
@@ -0,0 +1,122 @@
+import { TranscriptSegment, Quote } from "../types";
+import { formatSubtitleTimecode, formatTimestamp } from "./timecode";
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  maxCueDuration: number; // Seconds
+  includeSpeakers: boolean;
+  totalDuration?: number; // Media length, used to close the last segment
+}
+
+export const defaultSubtitleOptions: SubtitleOptions = {
+  maxCharsPerLine: 42,
+  maxLinesPerCue: 2,
+  maxCueDuration: 7,
+  includeSpeakers: false
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker: string;
+  isFirstOfSegment: boolean;
+}
+
+// Fallback reading speed when neither the model nor the next segment gives an end time, and
+// the slowest plausible speech rate, used to keep a pause before the next segment off screen.
+const CHARS_PER_SECOND = 15;
+const SLOWEST_CHARS_PER_SECOND = 8;
+const MIN_CUE_DURATION = 1;
+
+const resolveEndTime = (segments: TranscriptSegment[], index: number, totalDuration?: number): number => {
+  const segment = segments[index];
+  const start = segment.startMs / 1000;
+  const explicit = segment.endMs !== undefined ? segment.endMs / 1000 : 0;
+  if (explicit > start) return explicit;
+
+  const estimated = start + Math.max(MIN_CUE_DURATION, segment.text.length / CHARS_PER_SECOND);
+  const latest = start + Math.max(MIN_CUE_DURATION, segment.text.length / SLOWEST_CHARS_PER_SECOND);
+  const next = segments[index + 1];
+  if (next) {
+    const nextStart = next.startMs / 1000;
+    if (nextStart > start) return Math.min(nextStart, latest);
+  }
+  return totalDuration && totalDuration > start ? Math.min(estimated, totalDuration) : estimated;
+};
+
+const wrapLines = (text: string, maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  });
+  if (current) lines.push(current);
+  return lines;
+};
+
+// Splits one segment into as many cues as needed to respect both the line budget and the
+// maximum on-screen duration, sharing the segment's time out in proportion to text length.
+const segmentToCues = (segment: TranscriptSegment, start: number, end: number, options: SubtitleOptions): Cue[] => {
+  const lines = wrapLines(segment.text, options.maxCharsPerLine);
+  if (lines.length === 0) return [];
+
+  const cueCount = Math.max(
+    Math.ceil(lines.length / options.maxLinesPerCue),
+    Math.ceil((end - start) / options.maxCueDuration)
+  );
+  const linesPerCue = Math.max(1, Math.ceil(lines.length / cueCount));
+  const groups: string[][] = [];
+  for (let i = 0; i < lines.length; i += linesPerCue) groups.push(lines.slice(i, i + linesPerCue));
+
+  const totalChars = groups.reduce((sum, g) => sum + g.join(' ').length, 0);
+  let cursor = start;
+  return groups.map((group, i) => {
+    const share = group.join(' ').length / totalChars;
+    const cueEnd = i === groups.length - 1 ? end : cursor + (end - start) * share;
+    // A short line followed by a long silence would otherwise linger past the limit.
+    const cue = { start: cursor, end: Math.min(cueEnd, cursor + options.maxCueDuration), lines: group, speaker: segment.speaker, isFirstOfSegment: i === 0 };
+    cursor = cueEnd;
+    return cue;
+  });
+};
+
+const buildCues = (segments: TranscriptSegment[], options: SubtitleOptions): Cue[] => {
+  return segments.flatMap((segment, index) => {
+    const start = segment.startMs / 1000;
+    const end = resolveEndTime(segments, index, options.totalDuration);
+    return segmentToCues(segment, start, end, options);
+  });
+};
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const toSrt = (segments: TranscriptSegment[], options: SubtitleOptions = defaultSubtitleOptions): string => {
+  return buildCues(segments, options).map((cue, i) => {
+    const lines = [...cue.lines];
+    if (options.includeSpeakers && cue.isFirstOfSegment) lines[0] = `${cue.speaker}: ${lines[0]}`;
+    return `${i + 1}\n${formatSubtitleTimecode(cue.start, ',')} --> ${formatSubtitleTimecode(cue.end, ',')}\n${lines.join('\n')}`;
+  }).join('\n\n') + '\n';
+};
+
+export const toWebVtt = (segments: TranscriptSegment[], options: SubtitleOptions = defaultSubtitleOptions): string => {
+  const cues = buildCues(segments, options).map(cue => {
+    const body = cue.lines.map(escapeVtt).join('\n');
+    const text = options.includeSpeakers ? `<v ${escapeVtt(cue.speaker)}>${body}` : body;
+    return `${formatSubtitleTimecode(cue.start, '.')} --> ${formatSubtitleTimecode(cue.end, '.')}\n${text}`;
+  });
+  return `WEBVTT\n\n${cues.join('\n\n')}\n`;
+};
+
+// "«text» — Speaker [MM:SS]", ready to paste into a story.
+export const formatAttributedQuote = (quote: Quote): string => `«${quote.text}» — ${quote.speaker} [${formatTimestamp(quote.startMs)}]`;
+
+export const toQuoteSheet = (quotes: Quote[], title: string): string => {
+  return `${title}\n\n${quotes.map(formatAttributedQuote).join('\n\n')}\n`;
+};
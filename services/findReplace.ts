@@ -0,0 +1,75 @@
+import { TranscriptSegment } from "../types";
+
+export interface FindOptions {
+  query: string;
+  regex: boolean; // Otherwise the query is matched literally
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  speakers: string[]; // Empty searches every speaker
+}
+
+export const defaultFindOptions: FindOptions = {
+  query: '',
+  regex: false,
+  caseSensitive: false,
+  wholeWord: false,
+  speakers: []
+};
+
+export interface FindMatch {
+  segmentId: string;
+  start: number;
+  end: number;
+  groups: string[]; // Full match and capture groups, for $1-style replacements
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Null when there is nothing to search for or the regular expression does not compile, so a
+// half-typed pattern never throws while the user is still writing it.
+export const buildMatcher = (options: FindOptions): RegExp | null => {
+  if (!options.query) return null;
+  const source = options.regex ? options.query : escapeRegExp(options.query);
+  const bounded = options.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+  try {
+    return new RegExp(bounded, options.caseSensitive ? 'gu' : 'giu');
+  } catch {
+    return null;
+  }
+};
+
+export const findMatches = (segments: TranscriptSegment[], options: FindOptions): FindMatch[] => {
+  const matcher = buildMatcher(options);
+  if (!matcher) return [];
+  const matches: FindMatch[] = [];
+  segments.forEach(segment => {
+    if (options.speakers.length > 0 && !options.speakers.includes(segment.speaker)) return;
+    for (const m of segment.text.matchAll(matcher)) {
+      if (m[0].length === 0) continue; // Patterns like "a*" also match the empty string
+      matches.push({ segmentId: segment.id, start: m.index!, end: m.index! + m[0].length, groups: Array.from(m, g => g ?? '') });
+    }
+  });
+  return matches;
+};
+
+const expandReplacement = (replacement: string, match: FindMatch, regex: boolean): string => {
+  if (!regex) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return match.groups[0];
+    return match.groups[Number(ref)] ?? token;
+  });
+};
+
+// New text for every segment touched by `matches`. Matches are applied from the end of each
+// segment backwards so earlier offsets stay valid.
+export const applyReplacements = (segments: TranscriptSegment[], matches: FindMatch[], replacement: string, regex: boolean): Record<string, string> => {
+  const texts: Record<string, string> = {};
+  const byId = new Map(segments.map(s => [s.id, s]));
+  [...matches].sort((a, b) => b.start - a.start).forEach(match => {
+    const text = texts[match.segmentId] ?? byId.get(match.segmentId)?.text;
+    if (text === undefined) return;
+    texts[match.segmentId] = text.slice(0, match.start) + expandReplacement(replacement, match, regex) + text.slice(match.end);
+  });
+  return texts;
+};
@@ -1,8 +1,17 @@
-
 import { GoogleGenAI, Type } from "@google/genai";
-import { TranscriptSegment, EditMode, Language } from "../types";
+import { Language, ProviderSettings } from "../types";
+import { AIProvider, GenerationRequest, JsonSchema, RawSegment } from "./aiProvider";
+import { transcriptionPrompts, transcriptionSystemInstruction } from "./prompts";
+import { withGlossary } from "./glossary";
+import { parseTimestampMs } from "./timecode";
+import { toConfidence } from "./confidence";
+
+const models = {
+  fast: "gemini-3-flash-preview",
+  quality: "gemini-3-pro-preview"
+};
 
-const fileToGenerativePart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
+const fileToGenerativePart = async (file: Blob): Promise<{ inlineData: { data: string; mimeType: string } }> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -30,19 +39,32 @@ const transcriptSchema = {
     type: Type.OBJECT,
     properties: {
       speaker: { type: Type.STRING, description: "Identificador del hablante" },
-      startTime: { type: Type.STRING, description: "Tiempo de inicio en formato MM:SS" },
+      startTime: { type: Type.STRING, description: "Tiempo de inicio en formato MM:SS o HH:MM:SS, con décimas si se conocen" },
+      endTime: { type: Type.STRING, description: "Tiempo de fin en el mismo formato" },
       text: { type: Type.STRING, description: "Texto transcrito" },
+      confidence: { type: Type.NUMBER, description: "Seguridad de la transcripción del segmento, de 0 a 1" },
+      uncertain: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Fragmentos literales del texto que no se oyen con claridad" },
     },
     required: ["speaker", "startTime", "text"],
   },
 };
 
+// Gemini's responseSchema uses upper-case OpenAPI type names.
+const toGeminiSchema = (schema: JsonSchema): any => ({
+  ...schema,
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+  })
+});
+
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-async function generateWithRetry(modelInstance: any, params: any, retries = 3): Promise<any> {
+async function generateWithRetry(modelInstance: any, params: any, retries = 3, method: 'generateContent' | 'generateContentStream' = 'generateContent'): Promise<any> {
   for (let i = 0; i < retries; i++) {
     try {
-      return await modelInstance.generateContent(params);
+      return await modelInstance[method](params);
     } catch (error: any) {
       const isRateLimit = error.message?.includes('429') || error.status === 429;
       if (isRateLimit && i < retries - 1) {
@@ -54,81 +76,115 @@ async function generateWithRetry(modelInstance: any, params: any, retries = 3):
   }
 }
 
-export const transcribeAudio = async (file: File, language: Language): Promise<TranscriptSegment[]> => {
-  if (file.size > 50 * 1024 * 1024) {
-    throw new Error(language === 'es' ? "El archivo supera los 50MB." : "Fitxategiak 50MB gainditzen ditu.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const audioPart = await fileToGenerativePart(file);
-  
-  const prompt = language === 'es'
-    ? "Realiza la transcripción completa de este archivo. Identifica hablantes y marca el tiempo (MM:SS). Devuelve un array JSON con speaker, startTime y text."
-    : "Egin fitxategi honen transkripzio osoa euskaraz. Identifikatu hizlariak eta markatu hasiera-ordua (MM:SS). Itzuli JSON array bat speaker, startTime eta text objektuekin.";
-
-  try {
-    const response = await generateWithRetry(ai.models, {
-      model: "gemini-3-flash-preview",
-      contents: { parts: [audioPart, { text: prompt }] },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: transcriptSchema,
-        systemInstruction: "Eres un transcriptor periodístico de élite. Tu precisión es absoluta."
-      }
-    });
-
-    const data = JSON.parse(response.text || "[]");
-    return data.map((item: any, index: number) => ({
-      ...item,
-      id: `seg-${index}-${Date.now()}`
-    }));
-  } catch (error: any) {
-    console.error("Transcription error:", error);
-    throw new Error("Error en la transcripción. Verifica el archivo o la clave de API.");
+// Returns the objects of a JSON array that are already complete in a partial response, so a
+// streamed transcript can be shown while the rest is still arriving.
+const parseCompleteItems = (partial: string): any[] => {
+  const items: any[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  for (let i = 0; i < partial.length; i++) {
+    const char = partial[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      if (depth++ === 0) itemStart = i;
+    } else if (char === '}' && --depth === 0) {
+      try { items.push(JSON.parse(partial.slice(itemStart, i + 1))); } catch { /* Malformed item, skipped */ }
+    }
   }
+  return items;
 };
 
-export const reviewTranscript = async (segments: TranscriptSegment[], language: Language): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const transcriptText = segments.map(s => `[${s.startTime}] ${s.speaker}: ${s.text}`).join('\n');
-  const prompt = language === 'es'
-    ? "Corrige errores críticos en esta transcripción. Devuelve solo el texto corregido."
-    : "Zuzendu akats kritikoak transkripzio honetan. Itzuli testu zuzendua soilik.";
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: { parts: [{ text: prompt }, { text: transcriptText }] }
-    });
-    return response.text || "";
-  } catch (error: any) {
-    return transcriptText;
-  }
+// The model answers with clock strings, which are converted to the millisecond model here.
+const toRawSegment = ({ startTime, endTime, confidence, uncertain, ...item }: { speaker: string; startTime: string; endTime?: string; text: string; confidence?: number; uncertain?: string[] }): RawSegment => {
+  const score = toConfidence(confidence);
+  const spans = (uncertain ?? []).filter(span => span?.trim());
+  return {
+    ...item,
+    startMs: parseTimestampMs(startTime ?? 0),
+    ...(endTime !== undefined && { endMs: parseTimestampMs(endTime) }),
+    ...(score !== undefined && { confidence: score }),
+    ...(spans.length > 0 && { uncertainSpans: spans })
+  };
 };
 
-export const queryTranscript = async (segments: TranscriptSegment[], query: string, language: Language): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const transcriptText = segments.map(s => `[${s.startTime}] ${s.speaker}: ${s.text}`).join('\n');
-
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { parts: [{ text: `CONTEXTO:\n${transcriptText}` }, { text: `PREGUNTA: ${query}` }] },
-      config: { systemInstruction: language === 'es' ? "Eres un asistente experto." : "Laguntzaile aditua zara." }
-    });
-    return response.text || "";
-  } catch (error: any) {
-    throw error;
-  }
-};
+const toParts = (request: GenerationRequest) => [
+  { text: request.prompt },
+  ...(request.context ? [{ text: request.context }] : [])
+];
+
+export const createGeminiProvider = (settings: ProviderSettings): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+  return {
+    maxUploadBytes: 50 * 1024 * 1024,
 
-export const correctSegmentText = async (text: string, language: Language): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { parts: [{ text: (language === 'es' ? "Corrige gramática: " : "Zuzendu gramatika: ") + text }] }
-    });
-    return response.text?.trim() || text;
-  } catch { return text; }
+    transcribe: async (media, language, options) => {
+      const audioPart = await fileToGenerativePart(media);
+      const stream = await generateWithRetry(ai.models, {
+        model: models.fast,
+        contents: { parts: [audioPart, { text: withGlossary(transcriptionPrompts[language], options?.glossary ?? [], language) }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: transcriptSchema,
+          systemInstruction: transcriptionSystemInstruction,
+          abortSignal: options?.signal
+        }
+      }, 3, 'generateContentStream');
+
+      let text = "";
+      let received = 0;
+      for await (const chunk of stream) {
+        text += chunk.text ?? "";
+        const items = parseCompleteItems(text);
+        if (items.length > received) {
+          received = items.length;
+          options?.onSegments?.(items.map(toRawSegment));
+        }
+      }
+      return (JSON.parse(text || "[]") as any[]).map(toRawSegment);
+    },
+
+    generateText: async (request) => {
+      const response = await generateWithRetry(ai.models, {
+        model: models[request.tier ?? 'fast'],
+        contents: { parts: toParts(request) },
+        ...(request.systemInstruction && { config: { systemInstruction: request.systemInstruction } })
+      });
+      return response.text || "";
+    },
+
+    streamChat: async (request, onText) => {
+      const stream = await generateWithRetry(ai.models, {
+        model: models.fast,
+        contents: request.turns.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.content }] })),
+        config: { systemInstruction: request.systemInstruction }
+      }, 3, 'generateContentStream');
+      let text = "";
+      for await (const chunk of stream) {
+        text += chunk.text ?? "";
+        onText(text);
+      }
+      return text;
+    },
+
+    generateJson: async (request) => {
+      const response = await generateWithRetry(ai.models, {
+        model: models[request.tier ?? 'fast'],
+        contents: { parts: toParts(request) },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema),
+          ...(request.systemInstruction && { systemInstruction: request.systemInstruction })
+        }
+      });
+      return JSON.parse(response.text || "null");
+    }
+  };
 };
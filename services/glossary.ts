@@ -0,0 +1,123 @@
+import { GlossaryEntry, Language, TranscriptSegment } from "../types";
+import { glossaryPrompts } from "./prompts";
+
+// Whisper-style endpoints only look at the first ~224 tokens of their prompt.
+const VOCABULARY_HINT_CHARS = 800;
+
+const normalizeTerm = (term: string) => term.trim().toLowerCase();
+
+// Session entries override user entries for the same term.
+export const mergeGlossaries = (user: GlossaryEntry[], session: GlossaryEntry[]): GlossaryEntry[] => {
+  const sessionTerms = new Set(session.map(e => normalizeTerm(e.term)));
+  return [...user.filter(e => !sessionTerms.has(normalizeTerm(e.term))), ...session].filter(e => e.term.trim());
+};
+
+export const describeGlossary = (entries: GlossaryEntry[], language: Language): string => {
+  if (entries.length === 0) return '';
+  const { intro, misheard } = glossaryPrompts[language];
+  const lines = entries.map(e => {
+    const note = e.note ? ` (${e.note})` : '';
+    const misspellings = e.misspellings.length > 0 ? `; ${misheard} ${e.misspellings.map(m => `"${m}"`).join(', ')}` : '';
+    return `- ${e.term}${note}${misspellings}`;
+  });
+  return `${intro}\n${lines.join('\n')}`;
+};
+
+export const withGlossary = (prompt: string, entries: GlossaryEntry[], language: Language): string =>
+  entries.length > 0 ? `${prompt}\n\n${describeGlossary(entries, language)}` : prompt;
+
+// Plain list of spellings for transcription endpoints that take a vocabulary prompt.
+export const toVocabularyHint = (entries: GlossaryEntry[]): string => {
+  let hint = '';
+  for (const entry of entries) {
+    const next = hint ? `${hint}, ${entry.term}` : entry.term;
+    if (next.length > VOCABULARY_HINT_CHARS) break;
+    hint = next;
+  }
+  return hint;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Deterministic pass: every mis-hearing, as a whole word and in any case, becomes its term.
+// Longer mis-hearings are tried first so "San Sebastian de" beats "San Sebastian".
+export const applyGlossary = (text: string, entries: GlossaryEntry[]): string => {
+  const replacements = new Map<string, string>();
+  entries.forEach(e => e.misspellings.forEach(m => {
+    if (m.trim() && m.trim() !== e.term) replacements.set(m.trim().toLowerCase(), e.term);
+  }));
+  if (replacements.size === 0) return text;
+  const alternatives = [...replacements.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const matcher = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+  return text.replace(matcher, match => replacements.get(match.toLowerCase()) ?? match);
+};
+
+// Word timings are corrected one by one, so single-word fixes keep the karaoke view; a fix that
+// changes the word count leaves them stale until the next alignment.
+export const applyGlossaryToSegments = <T extends Omit<TranscriptSegment, 'id'>>(segments: T[], entries: GlossaryEntry[]): T[] => {
+  if (entries.every(e => e.misspellings.length === 0)) return segments;
+  return segments.map(s => {
+    const text = applyGlossary(s.text, entries);
+    if (text === s.text) return s;
+    return {
+      ...s,
+      text,
+      ...(s.words && { words: s.words.map(w => ({ ...w, text: applyGlossary(w.text, entries) })) }),
+      ...(s.uncertainSpans && { uncertainSpans: s.uncertainSpans.map(span => applyGlossary(span, entries)) })
+    };
+  });
+};
+
+// CSV: term, misspellings (separated by "|"), note. A header row is optional.
+const CSV_HEADER = ['term', 'misspellings', 'note'];
+
+const toCsvField = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toGlossaryCsv = (entries: GlossaryEntry[]): string => [
+  CSV_HEADER.join(','),
+  ...entries.map(e => [e.term, e.misspellings.join('|'), e.note ?? ''].map(toCsvField).join(','))
+].join('\r\n');
+
+const parseCsvRows = (text: string): string[][] => {
+  // Spreadsheets in Spanish locales export with ";" as the separator.
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else field += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, '')).filter(r => r.some(cell => cell.trim()));
+  const body = rows[0] && normalizeTerm(rows[0][0]) === CSV_HEADER[0] ? rows.slice(1) : rows;
+  const runId = Date.now();
+  return body.filter(r => r[0]?.trim()).map(([term, misspellings = '', note = ''], index) => ({
+    id: `term-${index}-${runId}`,
+    term: term.trim(),
+    misspellings: misspellings.split('|').map(m => m.trim()).filter(Boolean),
+    ...(note.trim() && { note: note.trim() })
+  }));
+};
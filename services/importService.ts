@@ -0,0 +1,163 @@
+import { TranscriptSegment } from "../types";
+import { parseTimecode, parseTimestampMs, migrateSegmentTimes } from "./timecode";
+
+// Parsers for transcripts produced elsewhere: SRT and WebVTT subtitles, our own JSON export
+// and the "[MM:SS] Speaker: text" plain text written by the .txt download.
+
+const UNKNOWN_SPEAKER = "?";
+const MAX_MERGED_LENGTH = 500;
+const MAX_MERGE_GAP_SECONDS = 1;
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string | null; // null when the cue does not name one
+  startsTurn: boolean; // Named through a "Name:" prefix, which only marks the first cue of a turn
+  text: string;
+}
+
+const makeId = (index: number) => `seg-import-${index}-${Date.now()}`;
+
+// "Name: text" at the start of a cue, as written by our SRT export and many agency files. Names
+// carry no digits, which rules out times such as "10:30", and only a few words.
+const SPEAKER_PREFIX = /^([^:\n\d]{1,40}):\s+(.+)$/s;
+const MAX_SPEAKER_WORDS = 4;
+const TIMESTAMP_PREFIX = /^\[(\d{1,2}(?::\d{1,2}){1,2}(?:[.,]\d+)?)\]\s*(.*)$/;
+
+const matchSpeaker = (text: string): { speaker: string; text: string } | null => {
+  const match = text.match(SPEAKER_PREFIX);
+  if (!match || match[1].trim().split(/\s+/).length > MAX_SPEAKER_WORDS) return null;
+  return { speaker: match[1].trim(), text: match[2].trim() };
+};
+
+// A prefix only names a speaker when the file follows that convention: the same name opens
+// several cues, or most cues open with a name. A lone "Nota:" stays part of the text.
+const findSpeakerNames = (texts: string[]): Set<string> => {
+  const counts = new Map<string, number>();
+  texts.forEach(text => {
+    const match = matchSpeaker(text);
+    if (match) counts.set(match.speaker, (counts.get(match.speaker) ?? 0) + 1);
+  });
+  const prefixed = Array.from(counts.values()).reduce((sum, n) => sum + n, 0);
+  const isLabelled = prefixed * 2 > texts.length;
+  return new Set(Array.from(counts).filter(([, n]) => n > 1 || isLabelled).map(([name]) => name));
+};
+
+const splitSpeaker = (text: string, names: Set<string>): { speaker: string | null; text: string } => {
+  const match = matchSpeaker(text);
+  return match && names.has(match.speaker) ? match : { speaker: null, text };
+};
+
+const parseCueBlocks = (content: string, isVtt: boolean): Cue[] => {
+  const cues: Cue[] = [];
+  content.replace(/\r\n?/g, '\n').split(/\n{2,}/).forEach(block => {
+    const lines = block.split('\n').map(l => l.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) return; // Header, NOTE, STYLE or index-only block
+
+    const [startRaw, endRaw] = lines[timingIndex].split('-->').map(part => part.trim().split(/\s+/)[0]);
+    let body = lines.slice(timingIndex + 1).join(' ');
+    let speaker: string | null = null;
+
+    if (isVtt) {
+      const voice = body.match(/<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+      if (voice) speaker = voice[1].trim();
+      body = body.replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+    } else {
+      body = body.replace(/<[^>]+>/g, '');
+    }
+
+    if (body.trim()) cues.push({ start: parseTimecode(startRaw), end: parseTimecode(endRaw), speaker, startsTurn: false, text: body.trim() });
+  });
+
+  // "Name:" prefixes are judged across the whole file, then taken off the cues they name.
+  const names = findSpeakerNames(cues.filter(cue => !cue.speaker).map(cue => cue.text));
+  return cues.map(cue => {
+    if (cue.speaker) return cue;
+    const { speaker, text } = splitSpeaker(cue.text, names);
+    return speaker ? { ...cue, speaker, startsTurn: true, text } : cue;
+  }).filter(cue => cue.text);
+};
+
+// Subtitle cues are a line or two long; consecutive cues of the same speaker are rejoined into
+// segments until a sentence ends, the speaker changes or there is a noticeable pause.
+const cuesToSegments = (cues: Cue[]): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  let lastSpeaker = UNKNOWN_SPEAKER;
+  let lastEnd = -Infinity;
+
+  cues.forEach(cue => {
+    const speaker = cue.speaker ?? lastSpeaker;
+    const previous = segments[segments.length - 1];
+    const canMerge = previous
+      && !cue.startsTurn
+      && previous.speaker === speaker
+      && cue.start - lastEnd <= MAX_MERGE_GAP_SECONDS
+      && !/[.?!…]["»”]?$/.test(previous.text)
+      && previous.text.length + cue.text.length < MAX_MERGED_LENGTH;
+
+    if (canMerge) {
+      previous.text = `${previous.text} ${cue.text}`;
+      previous.endMs = Math.round(cue.end * 1000);
+    } else {
+      segments.push({ id: makeId(segments.length), speaker, startMs: Math.round(cue.start * 1000), endMs: Math.round(cue.end * 1000), text: cue.text });
+    }
+    lastSpeaker = speaker;
+    lastEnd = cue.end;
+  });
+  return segments;
+};
+
+export const parseSrt = (content: string): TranscriptSegment[] => cuesToSegments(parseCueBlocks(content, false));
+
+export const parseVtt = (content: string): TranscriptSegment[] => cuesToSegments(parseCueBlocks(content, true));
+
+export const parseJson = (content: string): TranscriptSegment[] => {
+  const data = JSON.parse(content);
+  const items: any[] = Array.isArray(data) ? data : data?.segments;
+  if (!Array.isArray(items)) throw new Error("JSON sin segmentos");
+
+  return items
+    .filter(item => item && typeof item.text === 'string')
+    // Exports from before numeric times carry "MM:SS" startTime strings instead of startMs.
+    .map((item, index) => migrateSegmentTimes({
+      ...item,
+      id: typeof item.id === 'string' ? item.id : makeId(index),
+      speaker: typeof item.speaker === 'string' && item.speaker ? item.speaker : UNKNOWN_SPEAKER
+    }));
+};
+
+// "[MM:SS] Speaker: text". Lines without a timestamp continue the previous segment.
+export const parsePlainText = (content: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+  const lines = content.replace(/\r\n?/g, '\n').split('\n').map(line => line.trim()).filter(Boolean);
+  const names = findSpeakerNames(lines.map(line => line.match(TIMESTAMP_PREFIX)?.[2] ?? line));
+  lines.forEach(line => {
+    const match = line.match(TIMESTAMP_PREFIX);
+    if (match) {
+      const { speaker, text } = splitSpeaker(match[2], names);
+      segments.push({ id: makeId(segments.length), speaker: speaker ?? segments[segments.length - 1]?.speaker ?? UNKNOWN_SPEAKER, startMs: parseTimestampMs(match[1]), text });
+    } else if (segments.length > 0) {
+      segments[segments.length - 1].text += ` ${line}`;
+    } else {
+      const { speaker, text } = splitSpeaker(line, names);
+      segments.push({ id: makeId(0), speaker: speaker ?? UNKNOWN_SPEAKER, startMs: 0, text });
+    }
+  });
+  return segments;
+};
+
+export const parseTranscriptFile = async (file: File): Promise<TranscriptSegment[]> => {
+  const content = await file.text();
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  const trimmed = content.trimStart();
+
+  let segments: TranscriptSegment[];
+  if (extension === 'vtt' || trimmed.startsWith('WEBVTT')) segments = parseVtt(content);
+  else if (extension === 'srt') segments = parseSrt(content);
+  else if (extension === 'json' || /^(\{|\[\s*[{\]])/.test(trimmed)) segments = parseJson(content);
+  else segments = parsePlainText(content);
+
+  if (segments.length === 0) throw new Error("No se encontraron segmentos en el archivo.");
+  return segments;
+};
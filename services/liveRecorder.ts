@@ -0,0 +1,90 @@
+// Microphone recording for live transcription. One MediaRecorder keeps the whole recording;
+// a second one is restarted every `chunkMs` so each rolling chunk is a standalone file that can
+// be decoded and sent on its own. Offsets count recorded time only, so pauses leave no gaps.
+
+const MIN_CHUNK_MS = 500;
+
+export interface LiveRecorder {
+  pause: () => void;
+  resume: () => void;
+  stop: () => Promise<Blob>; // Resolves with the full recording once the last chunk is handed over
+  isPaused: () => boolean;
+  elapsedMs: () => number;
+}
+
+const pickMimeType = () => ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'].find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export const startLiveRecorder = async (chunkMs: number, onChunk: (chunk: Blob, offsetMs: number) => void): Promise<LiveRecorder> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const mimeType = pickMimeType();
+  const full = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const fullParts: Blob[] = [];
+  full.ondataavailable = (e) => { if (e.data.size > 0) fullParts.push(e.data); };
+  full.start();
+
+  let recordedMs = 0;
+  let resumedAt = performance.now();
+  let paused = false;
+  let chunk: { recorder: MediaRecorder; offsetMs: number; parts: Blob[] } | null = null;
+  let rotateTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const elapsedMs = () => recordedMs + (paused ? 0 : performance.now() - resumedAt);
+
+  const startChunk = () => {
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) parts.push(e.data); };
+    recorder.start();
+    chunk = { recorder, offsetMs: Math.round(elapsedMs()), parts };
+    rotateTimer = setTimeout(() => { flushChunk(); startChunk(); }, chunkMs);
+  };
+
+  // Resolves once the chunk has been handed to onChunk (or dropped as too short).
+  const flushChunk = () => new Promise<void>((resolve) => {
+    if (rotateTimer) clearTimeout(rotateTimer);
+    rotateTimer = null;
+    if (!chunk) return resolve();
+    const { recorder, offsetMs, parts } = chunk;
+    const durationMs = elapsedMs() - offsetMs;
+    recorder.onstop = () => {
+      if (durationMs >= MIN_CHUNK_MS && parts.length > 0) onChunk(new Blob(parts, { type: recorder.mimeType }), offsetMs);
+      resolve();
+    };
+    recorder.stop();
+    chunk = null;
+  });
+
+  startChunk();
+
+  return {
+    // Pausing closes the running chunk, so what was said before the pause is transcribed now.
+    pause: () => {
+      if (paused) return;
+      flushChunk();
+      recordedMs = elapsedMs();
+      paused = true;
+      full.pause();
+    },
+    resume: () => {
+      if (!paused) return;
+      paused = false;
+      resumedAt = performance.now();
+      full.resume();
+      startChunk();
+    },
+    stop: async () => {
+      await flushChunk();
+      recordedMs = elapsedMs();
+      paused = true;
+      return new Promise<Blob>((resolve) => {
+        full.onstop = () => {
+          stream.getTracks().forEach(track => track.stop());
+          resolve(new Blob(fullParts, { type: full.mimeType }));
+        };
+        full.stop();
+      });
+    },
+    isPaused: () => paused,
+    elapsedMs
+  };
+};
@@ -0,0 +1,173 @@
+import { Language, ProviderSettings } from "../types";
+import { AIProvider, GenerationRequest, RawSegment } from "./aiProvider";
+import { toVocabularyHint } from "./glossary";
+import { tokenizeWords } from "./wordAlignment";
+
+// Any server speaking the OpenAI HTTP API: /audio/transcriptions for Whisper-style speech
+// recognition (whisper.cpp, faster-whisper-server, LocalAI...) and /chat/completions for text.
+
+interface WhisperSegment {
+  start: number;
+  end: number;
+  text: string;
+  avg_logprob?: number;
+}
+
+interface WhisperWord {
+  start: number;
+  end: number;
+  word: string;
+  probability?: number; // Only some servers (faster-whisper, whisper.cpp) report it
+}
+
+// Words under this probability are grouped into uncertain spans.
+const UNCERTAIN_WORD_PROBABILITY = 0.5;
+
+// Runs of consecutive low-probability words, as they read in the text.
+const toUncertainSpans = (words: WhisperWord[]): string[] => {
+  const spans: string[][] = [];
+  let run: string[] | null = null;
+  for (const w of words) {
+    if (w.probability !== undefined && w.probability < UNCERTAIN_WORD_PROBABILITY) {
+      if (!run) spans.push(run = []);
+      run.push(w.word.trim());
+    } else {
+      run = null;
+    }
+  }
+  return spans.map(span => span.join(' '));
+};
+
+const defaultSpeaker: Record<Language, string> = {
+  es: "Hablante 1",
+  eu: "1. hizlaria"
+};
+
+const toMessages = (request: GenerationRequest) => [
+  ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+  { role: 'user', content: request.context ? `${request.prompt}\n\n${request.context}` : request.prompt }
+];
+
+export const createOpenAICompatibleProvider = (settings: ProviderSettings): AIProvider => {
+  const baseUrl = settings.endpoint.replace(/\/+$/, '');
+  const authHeaders: Record<string, string> = settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {};
+
+  const request = async (path: string, init: RequestInit): Promise<any> => {
+    const response = await fetch(`${baseUrl}${path}`, { ...init, headers: { ...authHeaders, ...init.headers } });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}: ${await response.text().catch(() => '')}`);
+    }
+    return response.json();
+  };
+
+  const chat = async (generation: GenerationRequest, responseFormat?: object): Promise<string> => {
+    const data = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: settings.chatModel,
+        messages: toMessages(generation),
+        ...(responseFormat && { response_format: responseFormat })
+      })
+    });
+    return data.choices?.[0]?.message?.content ?? "";
+  };
+
+  return {
+    // The reference Whisper API rejects uploads above 25MB; longer audio is chunked upstream.
+    maxUploadBytes: 25 * 1024 * 1024,
+
+    // verbose_json responses are not streamed; the whole result arrives at once.
+    transcribe: async (media: Blob, language: Language, options): Promise<RawSegment[]> => {
+      const form = new FormData();
+      form.append('file', media, media instanceof File ? media.name : 'audio.wav');
+      form.append('model', settings.transcriptionModel);
+      form.append('language', language);
+      form.append('response_format', 'verbose_json');
+      form.append('timestamp_granularities[]', 'word');
+      form.append('timestamp_granularities[]', 'segment');
+      if (options?.glossary?.length) form.append('prompt', toVocabularyHint(options.glossary));
+
+      const data = await request('/audio/transcriptions', { method: 'POST', body: form, signal: options?.signal });
+      const segments: WhisperSegment[] = data.segments ?? [];
+      const words: WhisperWord[] = (data.words ?? []).filter((w: WhisperWord) => w.word?.trim());
+      // Whisper does not diarize, so every segment starts with a single placeholder speaker.
+      return segments
+        .filter(s => s.text?.trim())
+        .map(s => {
+          // Word timestamps come as a flat list; each word belongs to the segment it starts in.
+          const ownWords = words.filter(w => w.start >= s.start && w.start < s.end);
+          // Words come without punctuation; when they line up with the text, its tokens are used instead.
+          const tokens = tokenizeWords(s.text);
+          const segmentWords = ownWords.map((w, i) => ({
+            text: tokens.length === ownWords.length ? tokens[i] : w.word.trim(),
+            startMs: Math.round(w.start * 1000),
+            endMs: Math.round(w.end * 1000)
+          }));
+          const uncertainSpans = toUncertainSpans(ownWords);
+          return {
+            speaker: defaultSpeaker[language],
+            startMs: Math.round(s.start * 1000),
+            endMs: Math.round(s.end * 1000),
+            text: s.text.trim(),
+            ...(segmentWords.length > 0 && { words: segmentWords }),
+            // The mean log-probability of the tokens, as a 0-1 score.
+            ...(typeof s.avg_logprob === 'number' && { confidence: Math.exp(Math.min(0, s.avg_logprob)) }),
+            ...(uncertainSpans.length > 0 && { uncertainSpans })
+          };
+        });
+    },
+
+    generateText: (generation) => chat(generation),
+
+    // Server-sent events: one "data:" line per delta, closed by "data: [DONE]".
+    streamChat: async (chatRequest, onText) => {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...authHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: settings.chatModel,
+          stream: true,
+          messages: [{ role: 'system', content: chatRequest.systemInstruction }, ...chatRequest.turns]
+        })
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`${response.status} ${response.statusText}: ${await response.text().catch(() => '')}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = "";
+      let text = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? "";
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+          const delta = JSON.parse(payload).choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onText(text);
+          }
+        }
+      }
+      return text;
+    },
+
+    generateJson: async (generation) => {
+      // Structured output requires an object at the root, so the schema is wrapped and unwrapped.
+      const content = await chat(generation, {
+        type: 'json_schema',
+        json_schema: {
+          name: 'result',
+          schema: { type: 'object', properties: { result: generation.schema }, required: ['result'] }
+        }
+      });
+      const parsed = JSON.parse(content || "null");
+      return parsed && typeof parsed === 'object' && 'result' in parsed ? parsed.result : parsed;
+    }
+  };
+};
@@ -0,0 +1,59 @@
+import { PlaybackAction, PlaybackSettings } from "../types";
+
+// Transcriptionist controls: global hotkeys plus foot pedals. Pedals that present as HID
+// keyboards simply send a configured hotkey; the rest show up through the Gamepad API.
+
+export const defaultPlaybackSettings: PlaybackSettings = {
+  hotkeys: {
+    playPause: 'F4',
+    rewind: 'F1',
+    forward: 'F2',
+    insertTimestamp: 'Ctrl+J'
+  },
+  pedalButtons: {},
+  skipSeconds: 5,
+  autoRewindSeconds: 2
+};
+
+export const playbackActions: PlaybackAction[] = ['playPause', 'rewind', 'forward', 'insertTimestamp'];
+
+const MODIFIER_KEYS = new Set(['Control', 'Shift', 'Alt', 'Meta', 'AltGraph', 'CapsLock']);
+
+// Canonical "Ctrl+Shift+K" form, or null while only a modifier is held.
+export const toHotkey = (e: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const key = e.key === ' ' ? 'Space' : e.key.length === 1 ? e.key.toUpperCase() : e.key;
+  return [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta', key].filter(Boolean).join('+');
+};
+
+export const findHotkeyAction = (e: KeyboardEvent, settings: PlaybackSettings): PlaybackAction | undefined => {
+  const hotkey = toHotkey(e);
+  return hotkey ? playbackActions.find(action => settings.hotkeys[action] === hotkey) : undefined;
+};
+
+// Reports button presses (not holds) from any connected gamepad. Gamepads are not evented, so
+// they are polled, but only while one is connected; browsers expose a pedal after its first press.
+export const watchGamepadButtons = (onPress: (button: number) => void): (() => void) => {
+  if (!navigator.getGamepads) return () => {};
+  const pressed = new Map<number, boolean[]>();
+  let frame: number | null = null;
+
+  const poll = () => {
+    const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null);
+    pads.forEach(pad => {
+      const previous = pressed.get(pad.index) ?? [];
+      const current = pad.buttons.map(b => b.pressed);
+      current.forEach((isDown, button) => { if (isDown && !previous[button]) onPress(button); });
+      pressed.set(pad.index, current);
+    });
+    frame = pads.length > 0 ? requestAnimationFrame(poll) : null;
+  };
+  const start = () => { if (frame === null) frame = requestAnimationFrame(poll); };
+
+  window.addEventListener('gamepadconnected', start);
+  start();
+  return () => {
+    window.removeEventListener('gamepadconnected', start);
+    if (frame !== null) cancelAnimationFrame(frame);
+  };
+};
@@ -0,0 +1,55 @@
+import { EditMode, Language } from "../types";
+
+// Prompt text shared by every provider, so switching backend never changes the editorial brief.
+
+export const transcriptionPrompts: Record<Language, string> = {
+  es: "Realiza la transcripción completa de este archivo. Identifica hablantes y marca el tiempo de inicio y fin (MM:SS, o HH:MM:SS a partir de la primera hora). Devuelve un array JSON con speaker, startTime, endTime, text, confidence (tu seguridad de 0 a 1) y uncertain (los fragmentos del texto, copiados literalmente, que no se oyen con claridad o has tenido que deducir).",
+  eu: "Egin fitxategi honen transkripzio osoa euskaraz. Identifikatu hizlariak eta markatu hasiera- eta amaiera-orduak (MM:SS, edo HH:MM:SS lehen ordutik aurrera). Itzuli JSON array bat speaker, startTime, endTime, text, confidence (zure ziurtasuna 0tik 1era) eta uncertain (argi entzuten ez diren edo asmatu behar izan dituzun testu-zatiak, hitzez hitz kopiatuta) objektuekin."
+};
+
+export const transcriptionSystemInstruction = "Eres un transcriptor periodístico de élite. Tu precisión es absoluta.";
+
+export const rewritePrompts: Record<Exclude<EditMode, EditMode.RAW>, Record<Language, string>> = {
+  [EditMode.CLEANED]: {
+    es: "Limpia cada segmento de esta transcripción: elimina muletillas, titubeos, repeticiones y falsos comienzos sin cambiar el sentido ni el registro del hablante. No resumas ni añadas nada. Devuelve un array JSON con id y text para cada segmento.",
+    eu: "Garbitu transkripzio honetako segmentu bakoitza: kendu betegarriak, zalantzak, errepikapenak eta hasiera faltsuak, esanahia eta hizlariaren erregistroa aldatu gabe. Ez laburtu eta ez gehitu ezer. Itzuli JSON array bat id eta text eremuekin segmentu bakoitzeko."
+  },
+  [EditMode.JOURNALISTIC]: {
+    es: "Reescribe cada segmento en estilo periodístico apto para publicar: frases claras y completas, puntuación correcta, sin muletillas, respetando fielmente lo que dice el hablante. No fusiones ni dividas segmentos. Devuelve un array JSON con id y text para cada segmento.",
+    eu: "Berridatzi segmentu bakoitza argitaratzeko moduko estilo kazetaritzakoan: esaldi argi eta osoak, puntuazio zuzena, betegarririk gabe, hizlariak esandakoa zintzo errespetatuz. Ez batu eta ez zatitu segmenturik. Itzuli JSON array bat id eta text eremuekin segmentu bakoitzeko."
+  }
+};
+
+export const rewriteSystemInstruction = "Eres un editor de mesa de redacción. Nunca inventas declaraciones.";
+
+export const reviewPrompts: Record<Language, string> = {
+  es: "Revisa esta transcripción y corrige solo errores críticos: palabras mal oídas, nombres propios, cifras y puntuación que cambie el sentido. Devuelve un array JSON únicamente con los segmentos que necesitan cambios, con su id, el texto completo corregido y el motivo.",
+  eu: "Berrikusi transkripzio hau eta zuzendu akats kritikoak soilik: gaizki entzundako hitzak, izen bereziak, zifrak eta esanahia aldatzen duen puntuazioa. Itzuli JSON array bat aldaketak behar dituzten segmentuekin soilik: id, testu zuzendu osoa eta arrazoia."
+};
+
+export const quotePrompts: Record<Language, string> = {
+  es: "Selecciona las citas más relevantes y publicables de esta transcripción. Copia cada cita palabra por palabra, sin corregir, resumir ni unir frases separadas; puedes recortar el principio o el final. Devuelve un array JSON con speaker, el id del segmento donde empieza (startId), el id donde termina (endId), el texto literal y por qué es relevante.",
+  eu: "Aukeratu transkripzio honetako aipu garrantzitsuenak eta argitaragarrienak. Kopiatu aipu bakoitza hitzez hitz, zuzendu, laburtu edo esaldi bereiziak batu gabe; hasiera edo amaiera moztu dezakezu. Itzuli JSON array bat speaker, hasierako segmentuaren ida (startId), amaierakoarena (endId), testu literala eta zergatik den garrantzitsua."
+};
+
+// Keyed by target language.
+export const translatePrompts: Record<Language, string> = {
+  es: "Traduce al castellano cada segmento de esta transcripción en euskera. Mantén el registro del hablante y no resumas, fusiones ni dividas segmentos. Devuelve un array JSON con id y text para cada segmento.",
+  eu: "Itzuli euskarara gaztelaniazko transkripzio honetako segmentu bakoitza. Mantendu hizlariaren erregistroa eta ez laburtu, batu edo zatitu segmenturik. Itzuli JSON array bat id eta text eremuekin segmentu bakoitzeko."
+};
+
+export const querySystemInstructions: Record<Language, string> = {
+  es: "Eres un asistente editorial experto. Responde solo a partir de la transcripción. Cada línea empieza con su marca de tiempo entre corchetes; cuando te apoyes en un pasaje, cítalo con esa misma marca exacta, por ejemplo [03:15].",
+  eu: "Laguntzaile editorial aditua zara. Erantzun transkripziotik soilik. Lerro bakoitza kortxete arteko denbora-marka batekin hasten da; pasarte batean oinarritzen zarenean, aipatu marka hori bera, adibidez [03:15]."
+};
+
+export const correctPrompts: Record<Language, string> = {
+  es: "Corrige gramática: ",
+  eu: "Zuzendu gramatika: "
+};
+
+// Appended to transcription and correction prompts when a glossary is active.
+export const glossaryPrompts: Record<Language, { intro: string; misheard: string }> = {
+  es: { intro: "Glosario: escribe estos nombres y términos exactamente así.", misheard: "a menudo se oye como" },
+  eu: { intro: "Glosarioa: idatzi izen eta termino hauek zehazki horrela.", misheard: "askotan honela entzuten da:" }
+};
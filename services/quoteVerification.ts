@@ -0,0 +1,40 @@
+import { TranscriptSegment } from "../types";
+
+// A quote only counts as verbatim if it appears character for character in the RAW transcript.
+// Whitespace runs are collapsed on both sides; case, accents and punctuation must all match.
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// Models often wrap quotes in quotation marks that were never spoken.
+export const stripQuoteMarks = (text: string): string => {
+  const trimmed = collapse(text);
+  const match = trimmed.match(/^["“«'‘](.*)["”»'’]$/s);
+  return match ? match[1].trim() : trimmed;
+};
+
+// Returns the RAW segments the quote spans, or null when it is not found verbatim. The search
+// starts at `hintId` so the occurrence the model pointed at wins over an earlier repetition.
+export const locateQuote = (text: string, rawSegments: TranscriptSegment[], hintId?: string): TranscriptSegment[] | null => {
+  const needle = stripQuoteMarks(text);
+  if (!needle) return null;
+
+  const starts: number[] = [];
+  let haystack = '';
+  rawSegments.forEach(segment => {
+    if (haystack) haystack += ' ';
+    starts.push(haystack.length);
+    haystack += collapse(segment.text);
+  });
+
+  const hintIndex = rawSegments.findIndex(s => s.id === hintId);
+  let position = hintIndex > 0 ? haystack.indexOf(needle, starts[hintIndex]) : -1;
+  if (position === -1) position = haystack.indexOf(needle);
+  if (position === -1) return null;
+
+  const segmentAt = (offset: number) => {
+    let index = 0;
+    while (index + 1 < starts.length && starts[index + 1] <= offset) index++;
+    return index;
+  };
+  return rawSegments.slice(segmentAt(position), segmentAt(position + needle.length - 1) + 1);
+};
@@ -0,0 +1,52 @@
+import { TranscriptSegment, SpeakerProfile, SpeakerRole, Language } from "../types";
+
+export interface SpeakerColor {
+  id: string;
+  text: string; // Tailwind class for the speaker label
+  swatch: string; // Tailwind class for the color picker and panel dot
+  hex: string; // For document exports and the waveform
+}
+
+export const speakerPalette: SpeakerColor[] = [
+  { id: 'indigo', text: 'text-indigo-600', swatch: 'bg-indigo-500', hex: '4F46E5' },
+  { id: 'emerald', text: 'text-emerald-600', swatch: 'bg-emerald-500', hex: '059669' },
+  { id: 'amber', text: 'text-amber-600', swatch: 'bg-amber-500', hex: 'D97706' },
+  { id: 'rose', text: 'text-rose-600', swatch: 'bg-rose-500', hex: 'E11D48' },
+  { id: 'cyan', text: 'text-cyan-600', swatch: 'bg-cyan-500', hex: '0891B2' },
+  { id: 'fuchsia', text: 'text-fuchsia-600', swatch: 'bg-fuchsia-500', hex: 'C026D3' },
+  { id: 'blue', text: 'text-blue-600', swatch: 'bg-blue-500', hex: '2563EB' },
+  { id: 'violet', text: 'text-violet-600', swatch: 'bg-violet-500', hex: '7C3AED' }
+];
+
+export const roleLabels: Record<SpeakerRole, Record<Language, string>> = {
+  interviewer: { es: 'Entrevistador/a', eu: 'Elkarrizketatzailea' },
+  interviewee: { es: 'Entrevistado/a', eu: 'Elkarrizketatua' }
+};
+
+// The profile's color when one was picked, otherwise a stable one derived from the name.
+export const getSpeakerColor = (name: string, profiles: Record<string, SpeakerProfile>): SpeakerColor => {
+  const picked = speakerPalette.find(c => c.id === profiles[name]?.color);
+  if (picked) return picked;
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = name.charCodeAt(i) + ((hash << 5) - hash);
+  return speakerPalette[Math.abs(hash) % speakerPalette.length];
+};
+
+export interface SpeakerStats {
+  name: string;
+  segmentCount: number;
+  talkMs: number;
+}
+
+// A segment without an end time is taken to last until the next one starts.
+export const getSpeakerStats = (segments: TranscriptSegment[]): SpeakerStats[] => {
+  const stats = new Map<string, SpeakerStats>();
+  segments.forEach((segment, i) => {
+    const end = segment.endMs ?? segments[i + 1]?.startMs ?? segment.startMs;
+    const entry = stats.get(segment.speaker) ?? { name: segment.speaker, segmentCount: 0, talkMs: 0 };
+    entry.segmentCount++;
+    entry.talkMs += Math.max(0, end - segment.startMs);
+    stats.set(segment.speaker, entry);
+  });
+  return Array.from(stats.values()).sort((a, b) => b.talkMs - a.talkMs);
+};
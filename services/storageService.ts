@@ -0,0 +1,135 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+
+const DB_NAME = 'harryup-db';
+const DB_VERSION = 2;
+const MEDIA_STORE = 'media';
+const STATE_STORE = 'state';
+const STATE_WRITE_DELAY_MS = 500;
+
+interface StoredMedia {
+  sessionId: string;
+  name: string;
+  type: string;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: 'sessionId' });
+        }
+        if (!db.objectStoreNames.contains(STATE_STORE)) {
+          db.createObjectStore(STATE_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const saveMedia = async (sessionId: string, file: File): Promise<void> => {
+  const record: StoredMedia = { sessionId, name: file.name, type: file.type, blob: file };
+  await runRequest(MEDIA_STORE, 'readwrite', store => store.put(record));
+  // Ask the browser not to evict our recordings under storage pressure. Best effort.
+  navigator.storage?.persist?.().catch(() => {});
+};
+
+export const loadMedia = async (sessionId: string): Promise<File | null> => {
+  const record = await runRequest<StoredMedia | undefined>(MEDIA_STORE, 'readonly', store => store.get(sessionId));
+  if (!record) return null;
+  return new File([record.blob], record.name, { type: record.type });
+};
+
+export const deleteMedia = async (sessionId: string): Promise<void> => {
+  await runRequest(MEDIA_STORE, 'readwrite', store => store.delete(sessionId));
+};
+
+export const copyMedia = async (fromSessionId: string, toSessionId: string): Promise<void> => {
+  const record = await runRequest<StoredMedia | undefined>(MEDIA_STORE, 'readonly', store => store.get(fromSessionId));
+  if (!record) return;
+  await runRequest(MEDIA_STORE, 'readwrite', store => store.put({ ...record, sessionId: toSessionId }));
+};
+
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+// Persist adapter for zustand that keeps the store state in IndexedDB instead of the ~5MB
+// localStorage quota. Writes are debounced because the middleware calls setItem on every
+// state change, including each keystroke in the editor.
+export const createIndexedDbStorage = <S>(): PersistStorage<S> => {
+  const pending = new Map<string, StorageValue<S>>();
+  const hydrated = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    timer = null;
+    const entries = Array.from(pending.entries());
+    pending.clear();
+    for (const [name, value] of entries) {
+      try {
+        await runRequest(STATE_STORE, 'readwrite', store => store.put(value, name));
+      } catch (error) {
+        console.error("State save error:", error);
+      }
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('pagehide', () => { if (timer) { clearTimeout(timer); flush(); } });
+  }
+
+  return {
+    getItem: async (name) => {
+      try {
+        const stored = await runRequest<StorageValue<S> | undefined>(STATE_STORE, 'readonly', store => store.get(name));
+        if (stored) return stored;
+
+        // One-time migration from the previous localStorage-backed persistence.
+        const legacy = localStorage.getItem(name);
+        if (!legacy) return null;
+        const value: StorageValue<S> = JSON.parse(legacy);
+        await runRequest(STATE_STORE, 'readwrite', store => store.put(value, name));
+        localStorage.removeItem(name);
+        return value;
+      } finally {
+        hydrated.add(name);
+      }
+    },
+    setItem: (name, value) => {
+      // Writes issued before hydration would replace the stored sessions with the empty defaults.
+      if (!hydrated.has(name)) return;
+      pending.set(name, value);
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, STATE_WRITE_DELAY_MS);
+    },
+    removeItem: async (name) => {
+      pending.delete(name);
+      await runRequest(STATE_STORE, 'readwrite', store => store.delete(name));
+    }
+  };
+};
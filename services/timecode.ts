@@ -0,0 +1,57 @@
+import { TranscriptSegment } from "../types";
+
+// Parses "SS", "MM:SS" or "HH:MM:SS", each optionally with decimals ("01:02.5"), into seconds.
+// Unparseable input yields 0 so a bad timestamp never breaks playback or exports.
+export const parseTimecode = (value: string | number): number => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : 0;
+  const parts = value.trim().replace(',', '.').split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(p => !Number.isFinite(p))) return 0;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+};
+
+export const parseTimestampMs = (value: string | number): number => Math.round(parseTimecode(value) * 1000);
+
+// Formats milliseconds for display: "MM:SS" under an hour and "HH:MM:SS" from then on, with
+// tenths of a second when `fractional` is set. parseTimecode reads every shape back.
+export const formatTimestamp = (ms: number, fractional = false): string => {
+  const totalTenths = Math.max(0, Math.floor(ms / 100));
+  const totalSeconds = Math.floor(totalTenths / 10);
+  const hours = Math.floor(totalSeconds / 3600);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const clock = `${hours > 0 ? `${pad(hours)}:` : ''}${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+  return fractional ? `${clock}.${totalTenths % 10}` : clock;
+};
+
+// Index of the segment playing at `ms`, or -1 outside all of them. A segment lasts until the
+// next one starts; the last one until its end, or for 30s when it has none.
+export const findSegmentIndexAt = (segments: TranscriptSegment[], ms: number): number =>
+  segments.findIndex((segment, i) => {
+    const nextSegment = segments[i + 1];
+    const end = nextSegment ? nextSegment.startMs : segment.endMs ?? segment.startMs + 30000;
+    return ms >= segment.startMs && ms < end;
+  });
+
+// Segments saved or exported before times were numeric carry "MM:SS" strings in
+// startTime/endTime; this rewrites them to startMs/endMs and leaves current ones untouched.
+type LegacySegment = TranscriptSegment & { startTime?: string | number; endTime?: string | number };
+
+export const migrateSegmentTimes = (segment: LegacySegment): TranscriptSegment => {
+  const { startTime, endTime, ...rest } = segment;
+  if (typeof segment.startMs === 'number') return rest;
+  return {
+    ...rest,
+    startMs: parseTimestampMs(startTime ?? 0),
+    ...(endTime !== undefined && { endMs: parseTimestampMs(endTime) })
+  };
+};
+
+// Formats seconds as "HH:MM:SS<separator>mmm", the shape used by SRT (",") and WebVTT (".").
+export const formatSubtitleTimecode = (seconds: number, separator: ',' | '.'): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+};
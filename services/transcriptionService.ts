@@ -0,0 +1,312 @@
+import { TranscriptSegment, EditMode, Language, ReviewSuggestion, Quote, GlossaryEntry } from "../types";
+import { useAppStore } from "../store";
+import { AIProvider, ChatTurn, JsonSchema, RawSegment } from "./aiProvider";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { rewritePrompts, rewriteSystemInstruction, reviewPrompts, querySystemInstructions, correctPrompts, quotePrompts, translatePrompts } from "./prompts";
+import { locateQuote, stripQuoteMarks } from "./quoteVerification";
+import { mergeGlossaries, describeGlossary, withGlossary, applyGlossary, applyGlossaryToSegments } from "./glossary";
+import { formatTimestamp } from "./timecode";
+import { getMediaDuration, decodeAudio, splitAudioBuffer, toWav, AudioChunk } from "./audioChunker";
+
+const LONG_RECORDING_SECONDS = 20 * 60;
+const CHUNK_SECONDS = 5 * 60;
+const CHUNK_OVERLAP_SECONDS = 10;
+const CHUNK_CONCURRENCY = 2;
+
+export interface TranscriptionCallbacks {
+  signal?: AbortSignal; // Aborting resolves with the segments received so far
+  onPartial?: (segments: TranscriptSegment[], progress: number) => void; // progress: 0-100, by the last start time
+}
+
+const rewriteSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: "Identificador del segmento original" },
+      text: { type: 'string', description: "Texto reescrito" },
+    },
+    required: ["id", "text"],
+  },
+};
+
+const reviewSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: "Identificador del segmento corregido" },
+      text: { type: 'string', description: "Texto completo del segmento ya corregido" },
+      reason: { type: 'string', description: "Motivo breve de la corrección" },
+    },
+    required: ["id", "text"],
+  },
+};
+
+const quoteSchema: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      speaker: { type: 'string', description: "Hablante de la cita" },
+      startId: { type: 'string', description: "Identificador del segmento donde empieza la cita" },
+      endId: { type: 'string', description: "Identificador del segmento donde termina la cita" },
+      text: { type: 'string', description: "Texto literal de la cita" },
+      reason: { type: 'string', description: "Por qué es relevante" },
+    },
+    required: ["speaker", "startId", "text"],
+  },
+};
+
+export const getProvider = (): AIProvider => {
+  const settings = useAppStore.getState().providerSettings;
+  return settings.provider === 'openai-compatible'
+    ? createOpenAICompatibleProvider(settings)
+    : createGeminiProvider(settings);
+};
+
+// The user's glossary plus the active session's, which wins on conflicting terms.
+export const getActiveGlossary = (): GlossaryEntry[] => {
+  const { glossary, sessionGlossary } = useAppStore.getState();
+  return mergeGlossaries(glossary, sessionGlossary);
+};
+
+const toSegmentPayload = (segments: TranscriptSegment[]) => JSON.stringify(segments.map(s => ({ id: s.id, speaker: s.speaker, text: s.text })));
+
+const toTranscriptText = (segments: TranscriptSegment[]) => segments.map(s => `[${formatTimestamp(s.startMs)}] ${s.speaker}: ${s.text}`).join('\n');
+
+const normalizeForCompare = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Moves times relative to a chunk of audio onto the timeline of the whole recording.
+const shiftSegment = (item: RawSegment, offsetMs: number): RawSegment => ({
+  ...item,
+  startMs: item.startMs + offsetMs,
+  ...(item.endMs !== undefined && { endMs: item.endMs + offsetMs }),
+  ...(item.words && {
+    words: item.words.map(w => ({ ...w, startMs: w.startMs + offsetMs, endMs: w.endMs + offsetMs }))
+  })
+});
+
+// Shifts each chunk's relative times to absolute ones and drops what was transcribed twice in
+// the overlap: a chunk owns the audio from the middle of its leading overlap to the middle of
+// its trailing one, and an exact repeat of the previous segment's text is discarded. Stops at
+// the first chunk without a result, so it also yields the finished prefix of a running job.
+const stitchChunks = (chunks: AudioChunk[], results: RawSegment[][]): RawSegment[] => {
+  const stitched: RawSegment[] = [];
+  const ready = results.findIndex(r => r === undefined);
+  chunks.slice(0, ready === -1 ? chunks.length : ready).forEach((chunk, i) => {
+    const offsetMs = Math.round(chunk.offsetSeconds * 1000);
+    const ownStart = i === 0 ? 0 : offsetMs + CHUNK_OVERLAP_SECONDS * 1000 / 2;
+    const next = chunks[i + 1];
+    const ownEnd = next ? Math.round(next.offsetSeconds * 1000) + CHUNK_OVERLAP_SECONDS * 1000 / 2 : Infinity;
+
+    results[i].forEach(item => {
+      const absolute = offsetMs + item.startMs;
+      if (absolute < ownStart || absolute >= ownEnd) return;
+      const previous = stitched[stitched.length - 1];
+      if (previous && normalizeForCompare(previous.text) === normalizeForCompare(item.text)) return;
+      stitched.push(shiftSegment(item, offsetMs));
+    });
+  });
+  return stitched;
+};
+
+// Chunks finish out of order, so progress is reported each time the finished prefix grows.
+const transcribeInChunks = async (provider: AIProvider, file: File, language: Language, onReceived: (received: RawSegment[]) => void, signal?: AbortSignal, glossary?: GlossaryEntry[]): Promise<RawSegment[]> => {
+  const buffer = await decodeAudio(file);
+  const chunks = splitAudioBuffer(buffer, CHUNK_SECONDS, CHUNK_OVERLAP_SECONDS);
+  const results: RawSegment[][] = new Array(chunks.length);
+  let nextIndex = 0;
+  let reportedLength = 0;
+
+  const worker = async () => {
+    while (nextIndex < chunks.length && !signal?.aborted) {
+      const chunk = chunks[nextIndex++];
+      results[chunk.index] = await provider.transcribe(chunk.blob, language, { signal, glossary });
+      const stitched = stitchChunks(chunks, results);
+      if (stitched.length > reportedLength) {
+        reportedLength = stitched.length;
+        onReceived(stitched);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHUNK_CONCURRENCY, chunks.length) }, worker));
+
+  return stitchChunks(chunks, results);
+};
+
+export const transcribeAudio = async (file: File, language: Language, { signal, onPartial }: TranscriptionCallbacks = {}): Promise<TranscriptSegment[]> => {
+  const provider = getProvider();
+  // Ids stay stable across partial updates so the Editor keeps its rows while segments arrive.
+  const runId = Date.now();
+  const glossary = getActiveGlossary();
+  const toSegments = (data: RawSegment[]): TranscriptSegment[] => applyGlossaryToSegments(data, glossary).map((item, index) => ({ ...item, id: `seg-${index}-${runId}` }));
+  let received: RawSegment[] = [];
+  let durationMs = 0;
+
+  const onReceived = (data: RawSegment[]) => {
+    received = data;
+    const lastStart = data[data.length - 1]?.startMs ?? 0;
+    onPartial?.(toSegments(data), durationMs > 0 ? Math.min(99, Math.round((lastStart / durationMs) * 100)) : 0);
+  };
+
+  try {
+    const duration = await getMediaDuration(file);
+    durationMs = duration * 1000;
+    const needsChunking = file.size > provider.maxUploadBytes || duration > LONG_RECORDING_SECONDS;
+    const data = needsChunking
+      ? await transcribeInChunks(provider, file, language, onReceived, signal, glossary)
+      : await provider.transcribe(file, language, { signal, onSegments: onReceived, glossary });
+
+    return toSegments(signal?.aborted ? received : data);
+  } catch (error: any) {
+    if (signal?.aborted) return toSegments(received);
+    console.error("Transcription error:", error);
+    throw new Error("Error en la transcripción. Verifica el archivo o la clave de API.");
+  }
+};
+
+export interface LiveTranscriber {
+  push: (chunk: Blob, offsetMs: number) => void;
+  flush: () => Promise<void>; // Settles once every pushed chunk has been transcribed
+  cancel: () => void; // Drops the chunks still queued and any result still to come
+}
+
+// Transcribes rolling recording chunks one at a time, in order, and reports each chunk's segments
+// on the recording's timeline. A chunk that fails is skipped: the final pass over the full
+// recording covers it.
+export const createLiveTranscriber = (language: Language, onSegments: (segments: TranscriptSegment[]) => void): LiveTranscriber => {
+  const provider = getProvider();
+  const glossary = getActiveGlossary();
+  const runId = Date.now();
+  let received = 0;
+  let queue = Promise.resolve();
+  let cancelled = false;
+
+  return {
+    push: (chunk, offsetMs) => {
+      queue = queue.then(async () => {
+        if (cancelled) return;
+        try {
+          const data = await provider.transcribe(await toWav(chunk), language, { glossary });
+          const segments = applyGlossaryToSegments(data, glossary).map(item => ({ ...shiftSegment(item, offsetMs), id: `live-${received++}-${runId}` }));
+          if (segments.length > 0 && !cancelled) onSegments(segments);
+        } catch (error) {
+          console.error("Live transcription error:", error);
+        }
+      });
+    },
+    flush: () => queue,
+    cancel: () => { cancelled = true; }
+  };
+};
+
+export const transformSegments = async (segments: TranscriptSegment[], mode: EditMode, language: Language): Promise<TranscriptSegment[]> => {
+  if (mode === EditMode.RAW) return segments;
+
+  try {
+    const data = await getProvider().generateJson<{ id: string; text: string }[]>({
+      prompt: rewritePrompts[mode][language],
+      context: toSegmentPayload(segments),
+      systemInstruction: rewriteSystemInstruction,
+      schema: rewriteSchema
+    });
+
+    const rewritten = new Map((data ?? []).map(item => [item.id, item.text]));
+    // Ids and timestamps always come from the source so every mode stays aligned with RAW.
+    return segments.map(s => ({ ...s, text: rewritten.get(s.id)?.trim() || s.text }));
+  } catch (error: any) {
+    console.error("Rewrite error:", error);
+    throw new Error(language === 'es' ? "Error al generar la versión editada." : "Errorea bertsio editatua sortzean.");
+  }
+};
+
+// Returns translated texts by segment id; segments the model skipped are left out.
+export const translateSegments = async (segments: TranscriptSegment[], target: Language): Promise<Record<string, string>> => {
+  try {
+    const data = await getProvider().generateJson<{ id: string; text: string }[]>({
+      prompt: translatePrompts[target],
+      context: toSegmentPayload(segments),
+      systemInstruction: rewriteSystemInstruction,
+      schema: rewriteSchema
+    });
+    const ids = new Set(segments.map(s => s.id));
+    return Object.fromEntries((data ?? []).filter(item => ids.has(item.id) && item.text?.trim()).map(item => [item.id, item.text.trim()]));
+  } catch (error: any) {
+    console.error("Translation error:", error);
+    throw new Error(target === 'eu' ? "Errorea itzulpena sortzean." : "Error al generar la traducción.");
+  }
+};
+
+export const reviewTranscript = async (segments: TranscriptSegment[], language: Language): Promise<ReviewSuggestion[]> => {
+  try {
+    const data = await getProvider().generateJson<{ id: string; text: string; reason?: string }[]>({
+      prompt: withGlossary(reviewPrompts[language], getActiveGlossary(), language),
+      context: toSegmentPayload(segments),
+      schema: reviewSchema,
+      tier: 'quality'
+    });
+
+    const byId = new Map(segments.map(s => [s.id, s]));
+    return (data ?? [])
+      .filter(item => byId.has(item.id) && item.text.trim() && item.text.trim() !== byId.get(item.id)!.text.trim())
+      .map((item, index) => ({ id: `sug-${index}-${Date.now()}`, segmentId: item.id, baseText: byId.get(item.id)!.text, text: item.text.trim(), reason: item.reason }));
+  } catch (error: any) {
+    console.error("Review error:", error);
+    throw new Error(language === 'es' ? "Error en la revisión IA. La transcripción no se ha modificado." : "Errorea IA berrikuspenean. Transkripzioa ez da aldatu.");
+  }
+};
+
+// Candidates always come back, verified or not; the time range and speaker of a verified quote
+// are taken from the RAW segments it was found in, not from what the model claimed.
+export const extractQuotes = async (rawSegments: TranscriptSegment[], language: Language): Promise<Quote[]> => {
+  try {
+    const data = await getProvider().generateJson<{ speaker: string; startId: string; endId?: string; text: string; reason?: string }[]>({
+      prompt: quotePrompts[language],
+      context: toSegmentPayload(rawSegments),
+      schema: quoteSchema,
+      tier: 'quality'
+    });
+
+    const byId = new Map(rawSegments.map(s => [s.id, s]));
+    return (data ?? []).filter(item => item.text?.trim()).map((item, index) => {
+      const found = locateQuote(item.text, rawSegments, item.startId);
+      const first = found?.[0] ?? byId.get(item.startId);
+      const last = found?.[found.length - 1] ?? byId.get(item.endId ?? item.startId) ?? first;
+      return {
+        id: `quote-${index}-${Date.now()}`,
+        speaker: found ? found[0].speaker : item.speaker,
+        startMs: first?.startMs ?? 0,
+        endMs: last?.endMs,
+        text: stripQuoteMarks(item.text),
+        segmentIds: found ? found.map(s => s.id) : [],
+        verified: found !== null,
+        reason: item.reason
+      };
+    });
+  } catch (error: any) {
+    console.error("Quote extraction error:", error);
+    throw new Error(language === 'es' ? "Error al extraer citas." : "Errorea aipuak ateratzean.");
+  }
+};
+
+// The transcript travels in the system instruction so every turn of the conversation can cite it.
+export const chatWithTranscript = async (segments: TranscriptSegment[], turns: ChatTurn[], language: Language, onText: (textSoFar: string) => void): Promise<string> => {
+  return getProvider().streamChat({
+    systemInstruction: `${querySystemInstructions[language]}\n\nTRANSCRIPCIÓN:\n${toTranscriptText(segments)}`,
+    turns
+  }, onText);
+};
+
+export const correctSegmentText = async (text: string, language: Language): Promise<string> => {
+  try {
+    const glossary = getActiveGlossary();
+    // The glossary goes in the system instruction so it cannot be mistaken for the text to correct.
+    const corrected = await getProvider().generateText({
+      prompt: correctPrompts[language] + text,
+      ...(glossary.length > 0 && { systemInstruction: describeGlossary(glossary, language) })
+    });
+    return applyGlossary(corrected.trim() || text, glossary);
+  } catch { return text; }
+};
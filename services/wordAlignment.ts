@@ -0,0 +1,89 @@
+import { TranscriptSegment, WordTiming } from "../types";
+
+// Estimated word timings for transcripts whose provider only returns segment times. Each
+// segment's words are spread over the frames in its span where there is speech energy,
+// in proportion to their length, so pauses between phrases are not assigned to any word.
+
+const FRAME_SECONDS = 0.02;
+const VOICED_RATIO = 0.3; // A frame counts as speech above this fraction of the segment's mean energy
+
+export const tokenizeWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+// Punctuation and case are ignored when matching words: providers such as Whisper return
+// bare words while the segment text keeps its punctuation.
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Word timings only apply while the text still matches them word for word.
+export const hasValidWords = (segment: TranscriptSegment): segment is TranscriptSegment & { words: WordTiming[] } => {
+  if (!segment.words || segment.words.length === 0) return false;
+  const tokens = tokenizeWords(segment.text);
+  return tokens.length === segment.words.length && tokens.every((token, i) => normalizeWord(token) === normalizeWord(segment.words![i].text));
+};
+
+export const computeEnergyEnvelope = (buffer: AudioBuffer): Float32Array => {
+  const frameSize = Math.max(1, Math.round(buffer.sampleRate * FRAME_SECONDS));
+  const frameCount = Math.ceil(buffer.length / frameSize);
+  const envelope = new Float32Array(frameCount);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let frame = 0; frame < frameCount; frame++) {
+      let sum = 0;
+      const end = Math.min(data.length, (frame + 1) * frameSize);
+      for (let i = frame * frameSize; i < end; i++) sum += data[i] * data[i];
+      envelope[frame] += Math.sqrt(sum / frameSize) / buffer.numberOfChannels;
+    }
+  }
+  return envelope;
+};
+
+const alignSegment = (words: string[], startSec: number, endSec: number, envelope: Float32Array): WordTiming[] => {
+  const firstFrame = Math.max(0, Math.floor(startSec / FRAME_SECONDS));
+  const lastFrame = Math.min(envelope.length, Math.ceil(endSec / FRAME_SECONDS));
+  let mean = 0;
+  for (let f = firstFrame; f < lastFrame; f++) mean += envelope[f];
+  mean /= Math.max(1, lastFrame - firstFrame);
+
+  const voiced: number[] = [];
+  for (let f = firstFrame; f < lastFrame; f++) if (envelope[f] >= mean * VOICED_RATIO) voiced.push(f);
+
+  // Maps a 0-1 share of the segment's speech to a point in time.
+  const timeAt = (share: number): number => {
+    if (voiced.length === 0) return startSec + (endSec - startSec) * share;
+    const index = Math.min(voiced.length - 1, Math.floor(share * voiced.length));
+    return voiced[index] * FRAME_SECONDS;
+  };
+
+  const weights = words.map(w => w.length + 1);
+  const total = weights.reduce((a, b) => a + b, 0);
+  let cumulative = 0;
+  return words.map((text, i) => {
+    const startMs = Math.round(timeAt(cumulative / total) * 1000);
+    cumulative += weights[i];
+    const endMs = i === words.length - 1 ? Math.round(endSec * 1000) : Math.round(timeAt(cumulative / total) * 1000);
+    return { text, startMs, endMs: Math.max(endMs, startMs) };
+  });
+};
+
+export const estimateWordTimings = (segments: TranscriptSegment[], envelope: Float32Array, durationSec: number): Record<string, WordTiming[]> => {
+  const result: Record<string, WordTiming[]> = {};
+  segments.forEach((segment, i) => {
+    const words = tokenizeWords(segment.text);
+    if (words.length === 0) return;
+    const start = segment.startMs / 1000;
+    const next = segments[i + 1];
+    const explicitEnd = segment.endMs !== undefined ? segment.endMs / 1000 : 0;
+    const end = explicitEnd > start ? explicitEnd : next && next.startMs / 1000 > start ? next.startMs / 1000 : durationSec;
+    if (end <= start) return;
+    result[segment.id] = alignSegment(words, start, end, envelope);
+  });
+  return result;
+};
+
+// Keeps word timings inside a segment whose edges moved, stretching them linearly.
+export const rescaleWords = (words: WordTiming[], from: { startMs: number; endMs: number }, to: { startMs: number; endMs: number }): WordTiming[] => {
+  const span = from.endMs - from.startMs;
+  const scale = (ms: number) => span > 0
+    ? Math.round(to.startMs + (ms - from.startMs) * (to.endMs - to.startMs) / span)
+    : to.startMs;
+  return words.map(w => ({ ...w, startMs: scale(w.startMs), endMs: scale(w.endMs) }));
+};
@@ -1,6 +1,15 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { TranscriptSegment, EditMode, ProcessingState, Language, StoredSession } from './types';
+import { TranscriptSegment, EditMode, ProcessingState, Language, StoredSession, HistoryState, ReviewSuggestion, ProviderSettings, WordTiming, SpeakerProfile, ChatMessage, Quote, Translation, GlossaryEntry, GlossaryScope, PlaybackSettings } from './types';
+import { deleteMedia, copyMedia, createIndexedDbStorage } from './services/storageService';
+import { defaultProviderSettings } from './services/aiProvider';
+import { defaultPlaybackSettings } from './services/playbackControls';
+import { hasValidWords, tokenizeWords, rescaleWords } from './services/wordAlignment';
+import { migrateSegmentTimes } from './services/timecode';
+
+const HISTORY_LIMIT = 100;
+const TYPING_BURST_MS = 1000;
+const AUTOSAVE_DELAY_MS = 1500;
 
 interface AppState {
   // Preferences & UI
@@ -8,20 +17,40 @@ interface AppState {
   setLanguage: (lang: Language) => void;
   isSidebarOpen: boolean;
   setSidebarOpen: (isOpen: boolean) => void;
+  providerSettings: ProviderSettings;
+  setProviderSettings: (settings: ProviderSettings) => void;
+  playbackSettings: PlaybackSettings;
+  setPlaybackSettings: (settings: PlaybackSettings) => void;
+  glossary: GlossaryEntry[]; // The user's own terms, used in every session
+  setGlossary: (scope: GlossaryScope, entries: GlossaryEntry[]) => void;
   
   // Active Session State
   sessionId: string | null;
   fileName: string;
   segments: TranscriptSegment[];
   editMode: EditMode;
+  versions: Partial<Record<EditMode, TranscriptSegment[]>>;
+  speakers: Record<string, SpeakerProfile>;
+  chatMessages: ChatMessage[];
+  quotes: Quote[];
+  translation: Translation | null;
+  sessionGlossary: GlossaryEntry[];
   processingState: ProcessingState;
   
   // Session Actions
   setSessionId: (id: string | null) => void;
   setFileName: (name: string) => void;
   setSegments: (segments: TranscriptSegment[]) => void;
+  appendSegments: (segments: TranscriptSegment[]) => void;
   setEditMode: (mode: EditMode) => void;
+  setModeSegments: (mode: EditMode, segments: TranscriptSegment[]) => void;
+  getModeSegments: (mode: EditMode) => TranscriptSegment[] | undefined;
   setProcessingState: (state: ProcessingState) => void;
+  setChatMessages: (update: (messages: ChatMessage[]) => ChatMessage[]) => void;
+  addQuote: (quote: Quote) => void;
+  removeQuote: (id: string) => void;
+  setTranslation: (translation: Translation | null) => void;
+  updateTranslationText: (id: string, text: string) => void;
   
   // Segment Logic
   updateSegment: (id: string, newText: string) => void;
@@ -29,15 +58,78 @@ interface AppState {
   deleteSegment: (id: string) => void;
   mergeSegment: (id: string) => void;
   splitSegment: (id: string, cursorPosition: number) => void;
+  setWordTimings: (timings: Record<string, WordTiming[]>) => void;
+  replaceSegmentTexts: (texts: Record<string, string>) => void;
+  retimeSegment: (id: string, startMs: number, endMs: number) => void;
+  markSegmentVerified: (id: string) => void;
+
+  // Speakers
+  renameSpeaker: (from: string, to: string) => void;
+  assignSpeakerRange: (fromId: string, toId: string, speaker: string) => void;
+  setSpeakerProfile: (name: string, changes: Partial<SpeakerProfile>) => void;
+
+  // AI Review Suggestions (for the active mode)
+  suggestions: ReviewSuggestion[];
+  setSuggestions: (suggestions: ReviewSuggestion[]) => void;
+  acceptSuggestion: (id: string) => void;
+  rejectSuggestion: (id: string) => void;
+  acceptAllSuggestions: () => void;
+  rejectAllSuggestions: () => void;
+
+  // Undo / Redo
+  past: HistoryState[];
+  future: HistoryState[];
+  historyBurst: { key: string; at: number } | null;
+  undo: () => void;
+  redo: () => void;
+  endHistoryBurst: () => void;
   
   // Persistence (Saved Sessions)
   savedSessions: StoredSession[];
   saveCurrentSession: () => void;
   deleteSession: (id: string) => void;
+  renameSession: (id: string, name: string) => void;
+  duplicateSession: (id: string) => void;
   loadSession: (session: StoredSession) => void;
   resetSession: () => void;
 }
 
+const snapshotOf = (state: AppState): HistoryState => ({ segments: state.segments, mode: state.editMode, versions: state.versions, speakers: state.speakers });
+
+// Snapshots the current segments before a mutation. Consecutive edits sharing a burst key
+// (e.g. keystrokes in one segment) within TYPING_BURST_MS collapse into a single step.
+const recordHistory = (state: AppState, burstKey: string | null = null): Partial<AppState> => {
+  const now = Date.now();
+  if (burstKey && state.historyBurst?.key === burstKey && now - state.historyBurst.at < TYPING_BURST_MS) {
+    return { historyBurst: { key: burstKey, at: now } };
+  }
+  return {
+    past: [...state.past, snapshotOf(state)].slice(-HISTORY_LIMIT),
+    future: [],
+    historyBurst: burstKey ? { key: burstKey, at: now } : null
+  };
+};
+
+// Applies a change to the parked copies of the other modes, which share the active segments' ids.
+const mapVersions = (versions: AppState['versions'], update: (s: TranscriptSegment) => TranscriptSegment): AppState['versions'] =>
+  Object.fromEntries(Object.entries(versions).map(([mode, segments]) => [mode, segments?.map(update)]));
+
+// Makes `snapshot` the active state, parking the current segments under their mode. Modes the
+// snapshot already had are rolled back with it; modes generated since are kept.
+const restoreHistory = (state: AppState, snapshot: HistoryState): Partial<AppState> => {
+  const versions = { ...state.versions, [state.editMode]: state.segments, ...snapshot.versions };
+  return { versions, speakers: snapshot.speakers, editMode: snapshot.mode, segments: snapshot.segments, historyBurst: null };
+};
+
+const emptyHistory = { past: [], future: [], historyBurst: null };
+
+// Suggestions only apply to the text that was reviewed; edited, merged or deleted segments lose theirs.
+const pruneSuggestions = (suggestions: ReviewSuggestion[], segments: TranscriptSegment[]): ReviewSuggestion[] => {
+  if (suggestions.length === 0) return suggestions;
+  const texts = new Map(segments.map(s => [s.id, s.text]));
+  return suggestions.filter(s => texts.get(s.segmentId) === s.baseText);
+};
+
 export const useAppStore = create<AppState>()(
   persist(
     (set, get) => ({
@@ -46,32 +138,80 @@ export const useAppStore = create<AppState>()(
       setLanguage: (lang) => set({ language: lang }),
       isSidebarOpen: false,
       setSidebarOpen: (isOpen) => set({ isSidebarOpen: isOpen }),
+      providerSettings: defaultProviderSettings,
+      setProviderSettings: (settings) => set({ providerSettings: settings }),
+      playbackSettings: defaultPlaybackSettings,
+      setPlaybackSettings: (settings) => set({ playbackSettings: settings }),
+      glossary: [],
+      setGlossary: (scope, entries) => set(scope === 'user' ? { glossary: entries } : { sessionGlossary: entries }),
 
       // Active Session
       sessionId: null,
       fileName: "",
       segments: [],
       editMode: EditMode.RAW,
+      versions: {},
+      speakers: {},
+      chatMessages: [],
+      quotes: [],
+      translation: null,
+      sessionGlossary: [],
       processingState: { status: 'idle' },
 
       setSessionId: (id) => set({ sessionId: id }),
       setFileName: (name) => set({ fileName: name }),
-      setSegments: (segments) => set({ segments }),
-      setEditMode: (mode) => set({ editMode: mode }),
+      setSegments: (segments) => set({ segments, suggestions: [], ...emptyHistory }),
+      // Appends to the current state so edits made while recording survive. Live results are always
+      // literal, so they go to the RAW version. History is dropped: older snapshots lack them.
+      appendSegments: (segments) => set((state) => state.editMode === EditMode.RAW
+        ? { segments: [...state.segments, ...segments], ...emptyHistory }
+        : { versions: { ...state.versions, [EditMode.RAW]: [...(state.versions[EditMode.RAW] ?? []), ...segments] }, ...emptyHistory }),
+      // The active mode lives in `segments`; the others are parked in `versions` until selected.
+      setEditMode: (mode) => set((state) => {
+        if (mode === state.editMode) return state;
+        const versions = { ...state.versions, [state.editMode]: state.segments };
+        return { versions, editMode: mode, segments: versions[mode] ?? state.segments, suggestions: [] };
+      }),
+
+      setModeSegments: (mode, segments) => set((state) => (
+        mode === state.editMode
+          ? { ...recordHistory(state), segments, suggestions: pruneSuggestions(state.suggestions, segments) }
+          : { versions: { ...state.versions, [mode]: segments } }
+      )),
+
+      getModeSegments: (mode) => {
+        const { editMode, segments, versions } = get();
+        return mode === editMode ? segments : versions[mode];
+      },
+
       setProcessingState: (state) => set({ processingState: state }),
+      setChatMessages: (update) => set((state) => ({ chatMessages: update(state.chatMessages) })),
+      addQuote: (quote) => set((state) => state.quotes.some(q => q.id === quote.id) ? state : { quotes: [...state.quotes, quote] }),
+      removeQuote: (id) => set((state) => ({ quotes: state.quotes.filter(q => q.id !== id) })),
+      setTranslation: (translation) => set({ translation }),
+      // A hand edit keeps the source of the entry it corrects, so it still goes stale with the segment.
+      updateTranslationText: (id, text) => set((state) => {
+        if (!state.translation) return state;
+        const track = state.translation.tracks[state.editMode] ?? {};
+        const source = track[id]?.source ?? state.segments.find(s => s.id === id)?.text ?? '';
+        return { translation: { ...state.translation, tracks: { ...state.translation.tracks, [state.editMode]: { ...track, [id]: { text, source } } } } };
+      }),
 
       // Segment Logic
-      updateSegment: (id, newText) => set((state) => ({
-        segments: state.segments.map(s => s.id === id ? { ...s, text: newText } : s)
-      })),
+      updateSegment: (id, newText) => set((state) => {
+        const segments = state.segments.map(s => s.id === id ? { ...s, text: newText } : s);
+        return { ...recordHistory(state, `text:${id}`), segments, suggestions: pruneSuggestions(state.suggestions, segments) };
+      }),
 
       updateSpeaker: (id, newSpeaker) => set((state) => ({
+        ...recordHistory(state, `speaker:${id}`),
         segments: state.segments.map(s => s.id === id ? { ...s, speaker: newSpeaker } : s)
       })),
 
-      deleteSegment: (id) => set((state) => ({
-        segments: state.segments.filter(s => s.id !== id)
-      })),
+      deleteSegment: (id) => set((state) => {
+        const segments = state.segments.filter(s => s.id !== id);
+        return { ...recordHistory(state), segments, suggestions: pruneSuggestions(state.suggestions, segments) };
+      }),
 
       mergeSegment: (id) => set((state) => {
         const index = state.segments.findIndex(s => s.id === id);
@@ -80,12 +220,23 @@ export const useAppStore = create<AppState>()(
         const prevSegment = state.segments[index - 1];
         const currentSegment = state.segments[index];
         const mergedText = `${prevSegment.text} ${currentSegment.text}`;
+        const mergedWords = hasValidWords(prevSegment) && hasValidWords(currentSegment)
+          ? [...prevSegment.words, ...currentSegment.words]
+          : undefined;
         
+        // The merged segment is as uncertain as its weaker half.
+        const confidences = [prevSegment.confidence, currentSegment.confidence].filter((c): c is number => c !== undefined);
+        const mergedSpans = [...(prevSegment.uncertainSpans ?? []), ...(currentSegment.uncertainSpans ?? [])];
+
         const newSegments = [...state.segments];
-        newSegments[index - 1] = { ...prevSegment, text: mergedText };
+        newSegments[index - 1] = {
+          ...prevSegment, text: mergedText, endMs: currentSegment.endMs, words: mergedWords,
+          confidence: confidences.length > 0 ? Math.min(...confidences) : undefined,
+          uncertainSpans: mergedSpans.length > 0 ? mergedSpans : undefined
+        };
         newSegments.splice(index, 1);
         
-        return { segments: newSegments };
+        return { ...recordHistory(state), segments: newSegments, suggestions: pruneSuggestions(state.suggestions, newSegments) };
       }),
 
       splitSegment: (id, cursorPosition) => set((state) => {
@@ -96,25 +247,169 @@ export const useAppStore = create<AppState>()(
         const textBefore = originalSegment.text.substring(0, cursorPosition).trim();
         const textAfter = originalSegment.text.substring(cursorPosition).trim();
 
+        // Word timings follow their words into each half
+        const wordsBefore = hasValidWords(originalSegment) ? originalSegment.words.slice(0, tokenizeWords(textBefore).length) : undefined;
+        const wordsAfter = hasValidWords(originalSegment) ? originalSegment.words.slice(tokenizeWords(textBefore).length) : undefined;
+
+        // The split point comes from the first timed word of the second half, or else is
+        // interpolated over the segment's span in proportion to the text on each side.
+        const startMs = originalSegment.startMs;
+        const endMs = originalSegment.endMs ?? state.segments[index + 1]?.startMs;
+        const splitMs = wordsAfter?.length
+          ? wordsAfter[0].startMs
+          : endMs !== undefined && endMs > startMs
+            ? Math.round(startMs + (endMs - startMs) * textBefore.length / Math.max(1, textBefore.length + textAfter.length))
+            : startMs;
+
         const newSegments = [...state.segments];
         // Update text of current segment
-        newSegments[index] = { ...originalSegment, text: textBefore };
+        newSegments[index] = { ...originalSegment, text: textBefore, endMs: splitMs > startMs ? splitMs : originalSegment.endMs, words: wordsBefore };
         // Insert new segment after
         newSegments.splice(index + 1, 0, {
           id: `seg-split-${Date.now()}`,
           speaker: "?",
-          startTime: originalSegment.startTime,
-          text: textAfter
+          startMs: splitMs,
+          endMs: originalSegment.endMs,
+          text: textAfter,
+          words: wordsAfter,
+          // Both halves keep every span; each only flags the ones found in its own text.
+          confidence: originalSegment.confidence,
+          uncertainSpans: originalSegment.uncertainSpans
         });
 
-        return { segments: newSegments };
+        return { ...recordHistory(state), segments: newSegments, suggestions: pruneSuggestions(state.suggestions, newSegments) };
       }),
 
+      setWordTimings: (timings) => set((state) => ({
+        ...recordHistory(state),
+        segments: state.segments.map(s => timings[s.id] ? { ...s, words: timings[s.id] } : s)
+      })),
+
+      // One history step however many segments change, so replace-all undoes in one go.
+      replaceSegmentTexts: (texts) => set((state) => {
+        const segments = state.segments.map(s => texts[s.id] !== undefined ? { ...s, text: texts[s.id] } : s);
+        return { ...recordHistory(state), segments, suggestions: pruneSuggestions(state.suggestions, segments) };
+      }),
+
+      // Every mode shares ids and timestamps, so the new times apply to all of them.
+      retimeSegment: (id, startMs, endMs) => set((state) => {
+        const retime = (s: TranscriptSegment) => {
+          if (s.id !== id) return s;
+          const words = s.words?.length
+            ? rescaleWords(s.words, { startMs: s.startMs, endMs: s.endMs ?? s.words[s.words.length - 1].endMs }, { startMs, endMs })
+            : s.words;
+          return { ...s, startMs, endMs, ...(words && { words }) };
+        };
+        return { ...recordHistory(state), segments: state.segments.map(retime), versions: mapVersions(state.versions, retime) };
+      }),
+
+      // Someone checked the passage against the audio, so it no longer needs review.
+      markSegmentVerified: (id) => set((state) => ({
+        ...recordHistory(state),
+        segments: state.segments.map(s => {
+          if (s.id !== id) return s;
+          const { confidence, uncertainSpans, ...verified } = s;
+          return verified;
+        })
+      })),
+
+      // Renaming onto a name that is already in use merges the two speakers.
+      renameSpeaker: (from, to) => set((state) => {
+        const name = to.trim();
+        if (!name || name === from) return state;
+        const { [from]: profile, ...speakers } = state.speakers;
+        const rename = (s: TranscriptSegment) => s.speaker === from ? { ...s, speaker: name } : s;
+        return {
+          ...recordHistory(state),
+          segments: state.segments.map(rename),
+          versions: mapVersions(state.versions, rename),
+          speakers: profile && !speakers[name] ? { ...speakers, [name]: profile } : speakers
+        };
+      }),
+
+      assignSpeakerRange: (fromId, toId, speaker) => set((state) => {
+        const a = state.segments.findIndex(s => s.id === fromId);
+        const b = state.segments.findIndex(s => s.id === toId);
+        if (a === -1 || b === -1 || !speaker.trim()) return state;
+        const [first, last] = a <= b ? [a, b] : [b, a];
+        const ids = new Set(state.segments.slice(first, last + 1).map(s => s.id));
+        const assign = (s: TranscriptSegment) => ids.has(s.id) ? { ...s, speaker: speaker.trim() } : s;
+        return {
+          ...recordHistory(state),
+          segments: state.segments.map(assign),
+          versions: mapVersions(state.versions, assign)
+        };
+      }),
+
+      setSpeakerProfile: (name, changes) => set((state) => ({
+        speakers: { ...state.speakers, [name]: { ...state.speakers[name], ...changes } }
+      })),
+
+      // AI Review Suggestions
+      suggestions: [],
+      setSuggestions: (suggestions) => set({ suggestions }),
+
+      acceptSuggestion: (id) => set((state) => {
+        const suggestion = pruneSuggestions(state.suggestions, state.segments).find(s => s.id === id);
+        if (!suggestion) return { suggestions: state.suggestions.filter(s => s.id !== id) };
+        return {
+          ...recordHistory(state),
+          segments: state.segments.map(s => s.id === suggestion.segmentId ? { ...s, text: suggestion.text } : s),
+          suggestions: state.suggestions.filter(s => s.id !== id)
+        };
+      }),
+
+      rejectSuggestion: (id) => set((state) => ({
+        suggestions: state.suggestions.filter(s => s.id !== id)
+      })),
+
+      acceptAllSuggestions: () => set((state) => {
+        const current = pruneSuggestions(state.suggestions, state.segments);
+        if (current.length === 0) return { suggestions: [] };
+        const accepted = new Map(current.map(s => [s.segmentId, s.text]));
+        return {
+          ...recordHistory(state),
+          segments: state.segments.map(s => accepted.has(s.id) ? { ...s, text: accepted.get(s.id)! } : s),
+          suggestions: []
+        };
+      }),
+
+      rejectAllSuggestions: () => set({ suggestions: [] }),
+
+      // Undo / Redo
+      past: [],
+      future: [],
+      historyBurst: null,
+
+      undo: () => set((state) => {
+        const previous = state.past[state.past.length - 1];
+        if (!previous) return state;
+        return {
+          ...restoreHistory(state, previous),
+          suggestions: [],
+          past: state.past.slice(0, -1),
+          future: [snapshotOf(state), ...state.future]
+        };
+      }),
+
+      redo: () => set((state) => {
+        const [next, ...rest] = state.future;
+        if (!next) return state;
+        return {
+          ...restoreHistory(state, next),
+          suggestions: [],
+          past: [...state.past, snapshotOf(state)],
+          future: rest
+        };
+      }),
+
+      endHistoryBurst: () => set({ historyBurst: null }),
+
       // Persistence
       savedSessions: [],
       
       saveCurrentSession: () => {
-        const { sessionId, fileName, segments, language, editMode, savedSessions } = get();
+        const { sessionId, fileName, segments, versions, speakers, chatMessages, quotes, translation, sessionGlossary, language, editMode, savedSessions } = get();
         if (!sessionId || segments.length === 0) return;
 
         const sessionToSave: StoredSession = {
@@ -122,8 +417,14 @@ export const useAppStore = create<AppState>()(
           name: fileName || `Transcripción ${new Date().toLocaleDateString()}`,
           date: Date.now(),
           segments,
+          versions: { ...versions, [editMode]: segments },
           language,
-          editMode
+          editMode,
+          speakers,
+          chat: chatMessages,
+          quotes,
+          ...(translation && { translation }),
+          glossary: sessionGlossary
         };
 
         const updatedSessions = [sessionToSave, ...savedSessions.filter(s => s.id !== sessionId)];
@@ -135,17 +436,40 @@ export const useAppStore = create<AppState>()(
         set((state) => ({
           savedSessions: state.savedSessions.filter(s => s.id !== id)
         }));
+        deleteMedia(id).catch(err => console.error("Media delete error:", err));
         if (sessionId === id) {
             get().resetSession();
         }
       },
 
+      renameSession: (id, name) => set((state) => ({
+        savedSessions: state.savedSessions.map(s => s.id === id ? { ...s, name } : s),
+        fileName: state.sessionId === id ? name : state.fileName
+      })),
+
+      duplicateSession: (id) => {
+        const original = get().savedSessions.find(s => s.id === id);
+        if (!original) return;
+        const suffix = original.language === 'es' ? 'copia' : 'kopia';
+        const copy: StoredSession = { ...original, id: Date.now().toString(), name: `${original.name} (${suffix})`, date: Date.now() };
+        set((state) => ({ savedSessions: [copy, ...state.savedSessions] }));
+        copyMedia(id, copy.id).catch(err => console.error("Media copy error:", err));
+      },
+
       loadSession: (session) => set({
         sessionId: session.id,
         fileName: session.name,
-        segments: session.segments,
+        segments: session.versions?.[session.editMode] ?? session.segments,
+        versions: session.versions ?? { [session.editMode]: session.segments },
+        speakers: session.speakers ?? {},
+        chatMessages: session.chat ?? [],
+        quotes: session.quotes ?? [],
+        translation: session.translation ?? null,
+        sessionGlossary: session.glossary ?? [],
         language: session.language,
         editMode: session.editMode,
+        suggestions: [],
+        ...emptyHistory,
         processingState: { status: 'completed' },
         isSidebarOpen: false
       }),
@@ -155,15 +479,72 @@ export const useAppStore = create<AppState>()(
         fileName: "",
         segments: [],
         editMode: EditMode.RAW,
+        versions: {},
+        speakers: {},
+        chatMessages: [],
+        quotes: [],
+        translation: null,
+        sessionGlossary: [],
+        suggestions: [],
+        ...emptyHistory,
         processingState: { status: 'idle' }
       })
     }),
     {
       name: 'harryup-storage',
+      storage: createIndexedDbStorage<Pick<AppState, 'savedSessions' | 'language' | 'providerSettings' | 'playbackSettings' | 'glossary'>>(),
+      // v1: segment times moved from "MM:SS" strings to startMs/endMs.
+      // v2: translations kept per mode, each entry with the text it was translated from.
+      version: 2,
+      migrate: (persisted: any, version) => {
+        if (version < 1 && Array.isArray(persisted?.savedSessions)) {
+          persisted.savedSessions = persisted.savedSessions.map((session: any) => ({
+            ...session,
+            segments: (session.segments ?? []).map(migrateSegmentTimes),
+            ...(session.versions && {
+              versions: Object.fromEntries(Object.entries(session.versions).map(([mode, segments]) => [mode, (segments as any[]).map(migrateSegmentTimes)]))
+            })
+          }));
+        }
+        // Old translations are attributed to the mode the session was saved in, as of its saved text.
+        if (version < 2 && Array.isArray(persisted?.savedSessions)) {
+          persisted.savedSessions = persisted.savedSessions.map((session: any) => {
+            if (!session.translation?.texts) return session;
+            const sources = new Map<string, string>((session.segments ?? []).map((s: TranscriptSegment) => [s.id, s.text]));
+            const track = Object.fromEntries(Object.entries(session.translation.texts as Record<string, string>)
+              .filter(([id]) => sources.has(id))
+              .map(([id, text]) => [id, { text, source: sources.get(id)! }]));
+            return { ...session, translation: { language: session.translation.language, tracks: { [session.editMode]: track } } };
+          });
+        }
+        return persisted;
+      },
       partialize: (state) => ({ 
         savedSessions: state.savedSessions,
-        language: state.language
+        language: state.language,
+        providerSettings: state.providerSettings,
+        playbackSettings: state.playbackSettings,
+        glossary: state.glossary
       }),
     }
   )
-);
\ No newline at end of file
+);
+
+// Autosave: any change to the active session's segments is written back to savedSessions
+// once editing pauses. Switching sessions is not an edit and does not trigger a save.
+let autosaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+useAppStore.subscribe((state, prevState) => {
+  if (!state.sessionId || state.sessionId !== prevState.sessionId) return;
+  const unchanged = state.segments === prevState.segments && state.versions === prevState.versions && state.editMode === prevState.editMode
+    && state.speakers === prevState.speakers && state.chatMessages === prevState.chatMessages && state.quotes === prevState.quotes
+    && state.translation === prevState.translation && state.sessionGlossary === prevState.sessionGlossary;
+  if (unchanged) return;
+
+  const scheduledFor = state.sessionId;
+  if (autosaveTimer) clearTimeout(autosaveTimer);
+  autosaveTimer = setTimeout(() => {
+    autosaveTimer = null;
+    if (useAppStore.getState().sessionId === scheduledFor) useAppStore.getState().saveCurrentSession();
+  }, AUTOSAVE_DELAY_MS);
+});
\ No newline at end of file
@@ -1,12 +1,41 @@
+export interface WordTiming {
+  text: string;
+  startMs: number;
+  endMs: number;
+}
+
 export interface TranscriptSegment {
   id: string;
   speaker: string;
-  startTime: string; // Format: "MM:SS" or seconds
+  startMs: number;
+  endMs?: number; // When the provider or the source file gives one
   text: string;
+  words?: WordTiming[]; // Optional word-level timing, valid while it matches `text` word for word
+  confidence?: number; // 0-1, as reported by the provider
+  uncertainSpans?: string[]; // Passages of `text` the provider was unsure of, quoted verbatim
 }
 
 export type Language = 'es' | 'eu';
 
+export type ProviderId = 'gemini' | 'openai-compatible';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  apiKey: string; // Empty falls back to the build-time key for Gemini
+  endpoint: string; // Base URL of an OpenAI-compatible API, e.g. http://localhost:8000/v1
+  transcriptionModel: string;
+  chatModel: string;
+}
+
+export type PlaybackAction = 'playPause' | 'rewind' | 'forward' | 'insertTimestamp';
+
+export interface PlaybackSettings {
+  hotkeys: Record<PlaybackAction, string>; // e.g. "Ctrl+J"; pedals that present as keyboards send one of these
+  pedalButtons: Partial<Record<PlaybackAction, number>>; // Gamepad API button index
+  skipSeconds: number; // Step for rewind and forward
+  autoRewindSeconds: number; // Rewound on every resume; 0 disables it
+}
+
 export enum EditMode {
   RAW = 'RAW',
   CLEANED = 'CLEANED', // Removed fillers
@@ -14,17 +43,79 @@ export enum EditMode {
 }
 
 export interface ProcessingState {
-  status: 'idle' | 'uploading' | 'transcribing' | 'refining' | 'completed' | 'error';
+  status: 'idle' | 'uploading' | 'recording' | 'transcribing' | 'refining' | 'completed' | 'error';
   message?: string;
+  progress?: number; // 0-100, when the step can report it
+}
+
+export interface ReviewSuggestion {
+  id: string;
+  segmentId: string;
+  baseText: string; // Segment text the review saw; once the segment changes, the suggestion is dropped
+  text: string; // Full corrected text proposed for the segment
+  reason?: string;
+}
+
+export type SpeakerRole = 'interviewer' | 'interviewee';
+
+export interface SpeakerProfile {
+  color?: string; // Key of speakerPalette; unset falls back to a color derived from the name
+  role?: SpeakerRole;
+}
+
+export interface Quote {
+  id: string;
+  speaker: string;
+  startMs: number;
+  endMs?: number;
+  text: string;
+  segmentIds: string[]; // RAW segments the quote was found in
+  verified: boolean; // Found character for character in the RAW transcript
+  reason?: string;
+}
+
+export interface TranslatedText {
+  text: string;
+  source: string; // Segment text it was translated from; once the segment changes, the entry is stale
+}
+
+// Parallel track in the other language. Texts are keyed by segment id, so speakers and
+// timestamps always come from the source segments and both tracks stay aligned. Every mode
+// shares the same ids, so each one keeps its own texts.
+export interface Translation {
+  language: Language;
+  tracks: Partial<Record<EditMode, Record<string, TranslatedText>>>;
+}
+
+export interface GlossaryEntry {
+  id: string;
+  term: string; // Preferred spelling, e.g. "Getxo"
+  misspellings: string[]; // Common mis-hearings, replaced by `term` after transcription
+  note?: string; // Context for the model, e.g. "municipio de Bizkaia"
+}
+
+export type GlossaryScope = 'user' | 'session';
+
+export interface HistoryState {
+  segments: TranscriptSegment[];
+  mode: EditMode;
+  versions: Partial<Record<EditMode, TranscriptSegment[]>>; // Parked modes, which speaker and timing edits also change
+  speakers: Record<string, SpeakerProfile>; // Profiles follow speaker renames
 }
 
 export interface StoredSession {
   id: string;
   name: string; // Filename
   date: number; // Timestamp
-  segments: TranscriptSegment[];
+  segments: TranscriptSegment[]; // Segments of the active editMode
+  versions?: Partial<Record<EditMode, TranscriptSegment[]>>; // Every generated mode, same ids and timestamps
   language: Language;
   editMode: EditMode;
+  speakers?: Record<string, SpeakerProfile>; // Keyed by speaker name
+  chat?: ChatMessage[]; // Copilot conversation
+  quotes?: Quote[]; // Clip board of verified quotes
+  translation?: Translation;
+  glossary?: GlossaryEntry[]; // Terms specific to this session, on top of the user's glossary
 }
 
 export interface ChatMessage {